@@ -0,0 +1,456 @@
+import { ProjectPlan, PlanStep, CreatePlanOptions, AIRequestOptions } from '../types';
+import { generatePlanId, generateStepId } from '../utils/idGenerator';
+import {
+  AIPlanResponse,
+  ValidationIssue,
+  ValidationResult,
+  formatValidationErrors,
+  parseAIPlanResponse,
+  parseAISubStepsResponse
+} from '../utils/validator';
+import { getNextActionableStep, renumberSteps, topologicalSort } from '../utils/stepGraph';
+import { subStepId } from '../utils/stepTree';
+import { createFallbackPlan, templateSkeleton } from '../templates/planTemplates';
+import { PlanProvider } from './PlanProvider';
+
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+// JSON shape requested from every model, checked by aiPlanResponseSchema
+const PLAN_JSON_FORMAT = `{
+  "title": "Project title (concise)",
+  "description": "Brief project description",
+  "overview": {
+    "projectType": "frontend|backend|fullstack",
+    "estimatedTime": "time estimate (e.g., '2-3 weeks')",
+    "complexity": "low|medium|high"
+  },
+  "fileStructure": {
+    "directories": ["array of directory paths"],
+    "files": ["array of important file paths"]
+  },
+  "dependencies": {
+    "npm": ["array of npm packages needed"],
+    "apis": ["array of external APIs"],
+    "services": ["array of deployment/hosting services"]
+  },
+  "steps": [
+    {
+      "title": "Step title",
+      "description": "Detailed description of what to do",
+      "files": ["files that will be created/modified"],
+      "dependencies": ["packages or tools needed for this step"],
+      "dependsOn": [],
+      "estimatedHours": 4,
+      "order": 1
+    }
+  ]
+}`;
+
+const STEP_NUMBERING_RULES = `- Number steps with "order" starting at 1
+- "dependsOn" lists the "order" numbers of steps that must be finished first (e.g. [1, 2]); it must not form cycles
+- Keep "dependencies" for packages/tools and "dependsOn" for prerequisite steps
+- "estimatedHours" is the focused work one developer needs for the step, in hours`;
+
+const REPOSITORY_RULES = `- Reference the existing files listed above in "files" when a step changes them; do not invent files that duplicate them
+- Place new files where the existing layout puts similar code and use the packages already installed
+- Skip setup the repository already has (project init, tooling, installed dependencies)`;
+
+const TEMPLATE_RULES = `- Start from the template plan above: keep its step structure and order
+- Adapt titles, descriptions, files and dependencies to the task; add or drop steps only where the task needs it`;
+
+export class PlanValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(`AI plan did not match the expected format:\n${formatValidationErrors(issues)}`);
+    this.name = 'PlanValidationError';
+  }
+}
+
+// Shared prompting, parsing and fallback logic - providers only implement complete()
+export abstract class BasePlanner implements PlanProvider {
+  abstract readonly name: string;
+  abstract readonly model: string;
+
+  // Send a single prompt to the backing model and return its raw text reply
+  protected abstract complete(prompt: string): Promise<string>;
+
+  async generatePlan(task: string, options: CreatePlanOptions): Promise<ProjectPlan> {
+    const prompt = this.buildPrompt(task, options);
+    
+    try {
+      const aiResponse = await this.requestPlan(prompt, options.repairAttempts);
+      
+      // Convert the validated AI response to our ProjectPlan format
+      return this.toProjectPlan(aiResponse, task, options);
+    } catch (error: unknown) {
+      // Fallback to a basic plan if AI fails, but say why
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`AI generation failed, creating basic plan...\n${reason}`);
+      return createFallbackPlan(task, options);
+    }
+  }
+
+  // Ask for a plan and feed validation errors back to the model until it produces a usable one
+  protected requestPlan(prompt: string, repairAttempts?: number): Promise<AIPlanResponse> {
+    return this.requestValidated(prompt, parseAIPlanResponse, repairAttempts);
+  }
+
+  protected async requestValidated<T>(
+    prompt: string,
+    parse: (text: string) => ValidationResult<T>,
+    repairAttempts: number = DEFAULT_REPAIR_ATTEMPTS
+  ): Promise<T> {
+    let text = await this.complete(prompt);
+    let result = parse(text);
+    
+    for (let attempt = 1; !result.valid && attempt <= repairAttempts; attempt++) {
+      console.warn(`AI response failed validation, asking for a repair (${attempt}/${repairAttempts})...`);
+      text = await this.complete(this.buildRepairPrompt(text, result.errors));
+      result = parse(text);
+    }
+    
+    if (!result.valid) {
+      throw new PlanValidationError(result.errors);
+    }
+    
+    return result.value!;
+  }
+
+  private buildPrompt(task: string, options: CreatePlanOptions): string {
+    return `
+You are an expert software development planner. Create a detailed development plan for the following task:
+
+Task: "${task}"
+${options.projectType ? `Project Type: ${options.projectType}` : ''}
+${options.framework ? `Framework: ${options.framework}` : ''}
+${options.repositoryContext ? `
+The task changes this existing codebase:
+
+${options.repositoryContext}
+` : ''}${options.template ? `
+Template plan ("${options.template.name}") to start from:
+
+${JSON.stringify(templateSkeleton(options.template, task), null, 2)}
+` : ''}
+Please provide a structured response in the following JSON format:
+
+${PLAN_JSON_FORMAT}
+
+Requirements:
+${options.template ? TEMPLATE_RULES : '- Create 4-7 logical development steps'}
+${STEP_NUMBERING_RULES}
+${options.repositoryContext ? REPOSITORY_RULES : '- Include realistic file structures'}
+- Suggest appropriate dependencies
+- Provide clear, actionable step descriptions
+- Consider best practices for the chosen technology stack
+
+Respond only with valid JSON, no additional text.
+    `;
+  }
+
+  private buildRepairPrompt(previousResponse: string, errors: ValidationIssue[]): string {
+    return `
+Your previous response could not be used because it failed validation:
+
+${formatValidationErrors(errors)}
+
+Previous response:
+${previousResponse}
+
+Return the corrected response using the same JSON format as requested. Every step needs a
+non-empty "title" and a "description"; "files" and "dependencies" must be arrays of strings;
+"order" must be a positive integer; "complexity" must be one of low, medium or high.
+
+Respond only with valid JSON, no additional text.
+    `;
+  }
+
+  private toProjectPlan(aiResponse: AIPlanResponse, task: string, options: CreatePlanOptions): ProjectPlan {
+    const planId = generatePlanId(aiResponse.title || task);
+    const now = new Date();
+
+    // Steps are keyed by their AI-assigned number until final ids are known
+    const keyedSteps: PlanStep[] = aiResponse.steps
+      .map((step, index) => ({ step, key: step.order ?? index + 1 }))
+      .sort((a, b) => a.key - b.key)
+      .map(({ step, key }) => ({
+        id: String(key),
+        title: step.title,
+        description: step.description,
+        files: step.files || [],
+        dependencies: step.dependencies || [],
+        dependsOn: (step.dependsOn || []).map(String),
+        completed: false,
+        estimatedHours: step.estimatedHours,
+        order: key
+      }));
+
+    // Prerequisites first, then renumber ids/order to match the final position
+    const steps = renumberSteps(topologicalSort(keyedSteps));
+
+    return {
+      id: planId,
+      title: aiResponse.title || task,
+      description: aiResponse.description || `Development plan for: ${task}`,
+      createdAt: now,
+      updatedAt: now,
+      status: 'planning',
+      overview: {
+        projectType: aiResponse.overview?.projectType || options.projectType || 'fullstack',
+        estimatedTime: aiResponse.overview?.estimatedTime || 'TBD',
+        complexity: aiResponse.overview?.complexity || 'medium'
+      },
+      fileStructure: {
+        directories: aiResponse.fileStructure?.directories || [],
+        files: aiResponse.fileStructure?.files || []
+      },
+      dependencies: {
+        npm: aiResponse.dependencies?.npm || [],
+        apis: aiResponse.dependencies?.apis || [],
+        services: aiResponse.dependencies?.services || []
+      },
+      steps,
+      progress: {
+        completedSteps: 0,
+        totalSteps: steps.length,
+        percentage: 0
+      }
+    };
+  }
+
+  // Revise an existing plan from natural-language feedback. Unlike generatePlan this
+  // never falls back silently - losing the user's plan would be worse than an error.
+  async refinePlan(plan: ProjectPlan, feedback: string, options: AIRequestOptions = {}): Promise<ProjectPlan> {
+    const aiResponse = await this.requestPlan(this.buildRefinePrompt(plan, feedback), options.repairAttempts);
+    return this.applyRefinement(plan, aiResponse);
+  }
+
+  private buildRefinePrompt(plan: ProjectPlan, feedback: string): string {
+    const currentPlan = {
+      title: plan.title,
+      description: plan.description,
+      overview: plan.overview,
+      fileStructure: plan.fileStructure,
+      dependencies: plan.dependencies,
+      steps: plan.steps.map(step => ({
+        id: step.id,
+        title: step.title,
+        description: step.description,
+        files: step.files,
+        dependencies: step.dependencies,
+        dependsOn: (step.dependsOn || [])
+          .map(id => plan.steps.find(candidate => candidate.id === id)?.order)
+          .filter((order): order is number => order !== undefined),
+        estimatedHours: step.estimatedHours,
+        order: step.order,
+        completed: step.completed
+      }))
+    };
+
+    return `
+You are an expert software development planner. Revise the following development plan based on the user's feedback.
+
+Current plan:
+${JSON.stringify(currentPlan, null, 2)}
+
+Feedback: "${feedback}"
+
+Return the complete revised plan in this JSON format:
+
+${PLAN_JSON_FORMAT}
+
+Requirements:
+- Apply the feedback; leave unrelated parts of the plan unchanged
+- Keep the "id" of every step that continues an existing step (reworded or not); omit "id" for new steps
+- Never remove or split steps with "completed": true - they are already done
+${STEP_NUMBERING_RULES}
+
+Respond only with valid JSON, no additional text.
+    `;
+  }
+
+  // Merge the AI revision into the existing plan: matched steps keep id and
+  // completion state, new steps get fresh ids, dropped completed steps are restored.
+  private applyRefinement(plan: ProjectPlan, aiResponse: AIPlanResponse): ProjectPlan {
+    const originalById = new Map(plan.steps.map(step => [step.id, step]));
+    const usedIds = new Set<string>();
+    let nextIdNumber = plan.steps.reduce((max, step) => {
+      const match = step.id.match(/^step-(\d+)$/);
+      return match ? Math.max(max, parseInt(match[1], 10)) : max;
+    }, 0) + 1;
+
+    const entries = aiResponse.steps
+      .map((step, index) => ({ step, key: step.order ?? index + 1 }))
+      .sort((a, b) => a.key - b.key);
+
+    // Resolve final ids first so dependsOn (AI order numbers) can be translated
+    const idByKey = new Map<number, string>();
+    for (const { step, key } of entries) {
+      if (step.id && originalById.has(step.id) && !usedIds.has(step.id)) {
+        idByKey.set(key, step.id);
+        usedIds.add(step.id);
+      } else {
+        let id = generateStepId(nextIdNumber++);
+        while (originalById.has(id)) {
+          id = generateStepId(nextIdNumber++);
+        }
+        idByKey.set(key, id);
+      }
+    }
+
+    const revisedSteps: PlanStep[] = entries.map(({ step, key }) => {
+      const id = idByKey.get(key)!;
+      const original = originalById.get(id);
+
+      return {
+        ...original,
+        id,
+        title: step.title,
+        description: step.description,
+        files: step.files || [],
+        dependencies: step.dependencies || [],
+        dependsOn: (step.dependsOn || [])
+          .map(dependencyKey => idByKey.get(dependencyKey))
+          .filter((dependencyId): dependencyId is string => dependencyId !== undefined),
+        completed: original ? original.completed : false,
+        estimatedHours: step.estimatedHours ?? original?.estimatedHours,
+        order: key
+      };
+    });
+
+    // Completed work is never dropped, even if the model left it out
+    const restored = plan.steps.filter(step => step.completed && !usedIds.has(step.id));
+    const sorted = topologicalSort([...restored, ...revisedSteps]);
+    const finalIds = new Set(sorted.map(step => step.id));
+    const steps = sorted.map((step, index) => ({
+      ...step,
+      order: index + 1,
+      dependsOn: (step.dependsOn || []).filter(id => finalIds.has(id))
+    }));
+
+    return {
+      ...plan,
+      title: aiResponse.title || plan.title,
+      description: aiResponse.description || plan.description,
+      overview: {
+        projectType: aiResponse.overview?.projectType || plan.overview.projectType,
+        estimatedTime: aiResponse.overview?.estimatedTime || plan.overview.estimatedTime,
+        complexity: aiResponse.overview?.complexity || plan.overview.complexity
+      },
+      fileStructure: {
+        directories: aiResponse.fileStructure?.directories || plan.fileStructure.directories,
+        files: aiResponse.fileStructure?.files || plan.fileStructure.files
+      },
+      dependencies: {
+        npm: aiResponse.dependencies?.npm || plan.dependencies.npm,
+        apis: aiResponse.dependencies?.apis || plan.dependencies.apis,
+        services: aiResponse.dependencies?.services || plan.dependencies.services
+      },
+      steps
+    };
+  }
+
+  // Break one step down into 3-8 sub-steps with their own files
+  async expandStep(plan: ProjectPlan, step: PlanStep, options: AIRequestOptions = {}): Promise<PlanStep[]> {
+    const prompt = `
+You are an expert software development planner. Break down one step of a development plan into smaller sub-steps.
+
+Project: ${plan.title}
+Project description: ${plan.description}
+Other steps: ${plan.steps.filter(candidate => candidate.id !== step.id).map(candidate => candidate.title).join(', ')}
+
+Step to expand: "${step.title}"
+Step details: ${step.description}
+Files involved: ${step.files.join(', ')}
+
+Please provide a structured response in the following JSON format:
+
+{
+  "subSteps": [
+    {
+      "title": "Sub-step title",
+      "description": "What exactly to do",
+      "files": ["files that will be created/modified"],
+      "estimatedHours": 1
+    }
+  ]
+}
+
+Requirements:
+- Create 3-8 sub-steps, in the order they should be done
+- "estimatedHours" is the focused work one developer needs for the sub-step, in hours
+- Each sub-step should be small enough to finish in one sitting
+- Only cover the work of this step, not the other steps
+
+Respond only with valid JSON, no additional text.
+    `;
+
+    const aiResponse = await this.requestValidated(prompt, parseAISubStepsResponse, options.repairAttempts);
+
+    return aiResponse.subSteps.map((subStep, index) => ({
+      id: subStepId(step.id, index + 1),
+      title: subStep.title,
+      description: subStep.description,
+      files: subStep.files || [],
+      dependencies: [],
+      completed: step.completed,
+      estimatedHours: subStep.estimatedHours,
+      order: index + 1
+    }));
+  }
+
+  async suggestNextSteps(plan: ProjectPlan, step?: PlanStep): Promise<string[]> {
+    const completedSteps = plan.steps.filter(candidate => candidate.completed);
+    const nextStep = step || getNextActionableStep(plan.steps) || plan.steps.find(candidate => !candidate.completed);
+    
+    if (!nextStep) {
+      return ['All steps completed! Consider deployment or additional features.'];
+    }
+
+    const prompt = `
+Given this development plan progress:
+- Project: ${plan.title}
+- Completed steps: ${completedSteps.map(s => s.title).join(', ')}
+- Next step: ${nextStep.title}
+- Step details: ${nextStep.description}
+- Files involved: ${nextStep.files.join(', ')}
+
+Suggest 3-5 specific actionable items for the next step "${nextStep.title}".
+Respond with a JSON array of strings, no additional formatting.
+    `;
+
+    const defaultSuggestions = [
+      `Work on: ${nextStep.description}`,
+      `Create files: ${nextStep.files.join(', ')}`,
+      `Install dependencies: ${nextStep.dependencies.join(', ')}`
+    ];
+
+    try {
+      const text = await this.complete(prompt);
+      const suggestions = parseSuggestions(text).slice(0, 5);
+        
+      return suggestions.length > 0 ? suggestions : defaultSuggestions;
+    } catch (error: unknown) {
+      return defaultSuggestions;
+    }
+  }
+}
+
+// Accept either a JSON array or a plain/bulleted list of lines
+function parseSuggestions(text: string): string[] {
+  const arrayMatch = text.match(/\[[\s\S]*\]/);
+  if (arrayMatch) {
+    try {
+      const parsed = JSON.parse(arrayMatch[0]);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+      }
+    } catch (error: unknown) {
+      // Not JSON after all - fall through to line parsing
+    }
+  }
+
+  return text
+    .split('\n')
+    .map(line => line.trim().replace(/^(?:[-*•]|\d+[.)])\s*/, '').replace(/^"(.*)",?$/, '$1'))
+    .filter(line => line && line !== '[' && line !== ']' && !line.startsWith('```'));
+}
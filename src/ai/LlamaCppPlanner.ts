@@ -0,0 +1,40 @@
+import { BasePlanner } from './BasePlanner';
+
+export const DEFAULT_LLAMACPP_BASE_URL = 'http://localhost:8080';
+
+// Talks to a llama.cpp server through its native /completion endpoint.
+// The server hosts a single model, so the model name is informational only.
+export class LlamaCppPlanner extends BasePlanner {
+  readonly name = 'llamacpp';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(model: string = 'default', baseUrl: string = DEFAULT_LLAMACPP_BASE_URL) {
+    super();
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/completion`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt,
+        n_predict: 2048,
+        stream: false
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`llama.cpp request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: any = await response.json();
+    if (typeof data?.content !== 'string') {
+      throw new Error('llama.cpp response did not contain any text');
+    }
+
+    return data.content;
+  }
+}
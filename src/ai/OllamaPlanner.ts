@@ -0,0 +1,40 @@
+import { BasePlanner } from './BasePlanner';
+
+export const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
+// Talks to a local Ollama daemon through its native /api/generate endpoint
+export class OllamaPlanner extends BasePlanner {
+  readonly name = 'ollama';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(model: string = DEFAULT_OLLAMA_MODEL, baseUrl: string = DEFAULT_OLLAMA_BASE_URL) {
+    super();
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        prompt,
+        stream: false
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: any = await response.json();
+    if (typeof data?.response !== 'string') {
+      throw new Error('Ollama response did not contain any text');
+    }
+
+    return data.response;
+  }
+}
@@ -0,0 +1,49 @@
+import { BasePlanner } from './BasePlanner';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Works with api.openai.com and any server exposing the /chat/completions API
+// (vLLM, LM Studio, llama.cpp's OpenAI-compatible mode, test stand-ins...)
+export class OpenAIPlanner extends BasePlanner {
+  readonly name = 'openai';
+  readonly model: string;
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string | undefined, model: string = DEFAULT_OPENAI_MODEL, baseUrl: string = DEFAULT_OPENAI_BASE_URL) {
+    super();
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.2
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: any = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('OpenAI-compatible response did not contain a message');
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,11 @@
+import { ProjectPlan, PlanStep, CreatePlanOptions, AIRequestOptions } from '../types';
+
+// Contract every LLM backend has to fulfil so commands stay provider-agnostic
+export interface PlanProvider {
+  readonly name: string;
+  readonly model: string;
+  generatePlan(task: string, options: CreatePlanOptions): Promise<ProjectPlan>;
+  refinePlan(plan: ProjectPlan, feedback: string, options?: AIRequestOptions): Promise<ProjectPlan>;
+  expandStep(plan: ProjectPlan, step: PlanStep, options?: AIRequestOptions): Promise<PlanStep[]>;
+  suggestNextSteps(plan: ProjectPlan, step?: PlanStep): Promise<string[]>;
+}
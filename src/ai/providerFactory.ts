@@ -0,0 +1,59 @@
+import { PlanProviderName } from '../types';
+import { ConfigManager } from '../config/ConfigManager';
+import { PlanProvider } from './PlanProvider';
+import { GeminiPlanner, DEFAULT_GEMINI_MODEL } from './GeminiPlanner';
+import { OpenAIPlanner, DEFAULT_OPENAI_MODEL, DEFAULT_OPENAI_BASE_URL } from './OpenAIPlanner';
+import { OllamaPlanner, DEFAULT_OLLAMA_MODEL, DEFAULT_OLLAMA_BASE_URL } from './OllamaPlanner';
+import { LlamaCppPlanner, DEFAULT_LLAMACPP_BASE_URL } from './LlamaCppPlanner';
+
+export const PLAN_PROVIDERS: PlanProviderName[] = ['gemini', 'openai', 'ollama', 'llamacpp'];
+
+export interface ProviderOverrides {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+export function isPlanProviderName(value: string): value is PlanProviderName {
+  return (PLAN_PROVIDERS as string[]).includes(value);
+}
+
+// Resolve provider settings from CLI flags, then config, then environment, then defaults
+export async function createPlanProvider(
+  configManager: ConfigManager,
+  overrides: ProviderOverrides = {}
+): Promise<PlanProvider> {
+  const config = await configManager.loadConfig();
+  const providerName = overrides.provider || config.provider || 'gemini';
+
+  if (!isPlanProviderName(providerName)) {
+    throw new Error(`Unknown provider "${providerName}". Available: ${PLAN_PROVIDERS.join(', ')}`);
+  }
+
+  // A model/base URL saved for one provider makes no sense for another
+  const useConfigDefaults = !overrides.provider || overrides.provider === config.provider;
+  const model = overrides.model || (useConfigDefaults ? config.model : undefined);
+  const baseUrl = overrides.baseUrl || (useConfigDefaults ? config.providerBaseUrl : undefined);
+
+  switch (providerName) {
+    case 'gemini': {
+      const apiKey = await configManager.ensureApiKey();
+      return new GeminiPlanner(apiKey, model || DEFAULT_GEMINI_MODEL);
+    }
+    case 'openai': {
+      const apiKey = config.openaiApiKey || process.env.OPENAI_API_KEY;
+      return new OpenAIPlanner(
+        apiKey,
+        model || DEFAULT_OPENAI_MODEL,
+        baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL
+      );
+    }
+    case 'ollama':
+      return new OllamaPlanner(
+        model || DEFAULT_OLLAMA_MODEL,
+        baseUrl || process.env.OLLAMA_HOST || DEFAULT_OLLAMA_BASE_URL
+      );
+    case 'llamacpp':
+      return new LlamaCppPlanner(model, baseUrl || DEFAULT_LLAMACPP_BASE_URL);
+  }
+}
@@ -8,7 +8,37 @@ import { createCommand } from './commands/create';
 import { listCommand } from './commands/list';
 import { showCommand } from './commands/show';
 import { progressCommand } from './commands/progress';
+import { nextCommand } from './commands/next';
+import { editCommand } from './commands/edit';
+import { refineCommand } from './commands/refine';
+import { expandCommand } from './commands/expand';
+import { statusCommand } from './commands/status';
+import { archiveCommand } from './commands/archive';
+import { pruneCommand } from './commands/prune';
+import { deleteCommand } from './commands/delete';
+import { exportCommand } from './commands/export';
+import { importCommand } from './commands/import';
+import { initCommand } from './commands/init';
+import { migrateCommand } from './commands/migrate';
+import { doctorCommand } from './commands/doctor';
+import { upgradeCommand } from './commands/upgrade';
+import { historyCommand } from './commands/history';
+import { diffCommand } from './commands/diff';
+import { undoCommand } from './commands/undo';
+import { revertCommand } from './commands/revert';
+import { startCommand } from './commands/start';
+import { stopCommand } from './commands/stop';
+import { reportCommand } from './commands/report';
+import { statsCommand } from './commands/stats';
+import { verifyCommand } from './commands/verify';
+import { scaffoldCommand } from './commands/scaffold';
+import { hookCommand } from './commands/hook';
+import { linkCommand } from './commands/link';
+import { templateCommand } from './commands/template';
 import { configCommand } from './commands/config';
+import { resolveStorageLocation, setStorageScope } from './storage/storageLocation';
+import { setOutputMode } from './utils/output';
+import { setInteractive } from './utils/prompt';
 
 // Rest of your code stays the same...
 const program = new Command();
@@ -16,13 +46,69 @@ const program = new Command();
 program
   .name('code-planner')
   .description('AI-powered planning layer for coding tasks')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-g, --global', 'Use the global plan store in your home directory')
+  .option('-L, --local', 'Use the project plan store (.code-planner/ in this or a parent directory)')
+  .option('--json', 'Print the result as a JSON document (for scripts and editor integrations)')
+  .option('-q, --quiet', 'Only print errors and data, no progress or decoration')
+  .option('--no-interactive', 'Never prompt; fail with exit code 4 when input is missing (default when stdin is not a terminal)');
+
+// Pick the plan store before any command runs
+program.hook('preAction', () => {
+  const { global: useGlobal, local: useLocal, json, quiet, interactive } = program.opts();
+
+  // First, so that errors below are reported in the requested format
+  setOutputMode(json ? 'json' : quiet ? 'quiet' : 'text');
+  setInteractive(interactive && !json && process.stdin.isTTY === true);
+
+  if (useGlobal && useLocal) {
+    console.error(chalk.red('❌ Use either --global or --local, not both'));
+    process.exit(1);
+  }
+
+  setStorageScope(useGlobal ? 'global' : useLocal ? 'local' : 'auto');
+
+  try {
+    resolveStorageLocation();
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(chalk.red('❌'), errorMessage);
+    process.exit(1);
+  }
+});
 
 // Add commands
 program.addCommand(createCommand);
 program.addCommand(listCommand);
 program.addCommand(showCommand);
 program.addCommand(progressCommand);
+program.addCommand(nextCommand);
+program.addCommand(editCommand);
+program.addCommand(refineCommand);
+program.addCommand(expandCommand);
+program.addCommand(startCommand);
+program.addCommand(stopCommand);
+program.addCommand(reportCommand);
+program.addCommand(statsCommand);
+program.addCommand(verifyCommand);
+program.addCommand(scaffoldCommand);
+program.addCommand(hookCommand);
+program.addCommand(linkCommand);
+program.addCommand(templateCommand);
+program.addCommand(statusCommand);
+program.addCommand(archiveCommand);
+program.addCommand(pruneCommand);
+program.addCommand(deleteCommand);
+program.addCommand(historyCommand);
+program.addCommand(diffCommand);
+program.addCommand(undoCommand);
+program.addCommand(revertCommand);
+program.addCommand(exportCommand);
+program.addCommand(importCommand);
+program.addCommand(initCommand);
+program.addCommand(migrateCommand);
+program.addCommand(doctorCommand);
+program.addCommand(upgradeCommand);
 program.addCommand(configCommand);
 
 // Custom help
@@ -30,9 +116,41 @@ program.on('--help', () => {
   console.log('');
   console.log(chalk.cyan('Examples:'));
   console.log('  $ code-planner create "Build a todo app with authentication"');
+  console.log('  $ code-planner create "Orders service" --template rest-api --no-ai');
+  console.log('  $ code-planner template list');
+  console.log('  $ code-planner template save-from my-plan-id --name team-service');
   console.log('  $ code-planner list');
   console.log('  $ code-planner show my-plan-id');
   console.log('  $ code-planner progress my-plan-id --step 1 --complete');
+  console.log('  $ code-planner next my-plan-id');
+  console.log('  $ code-planner edit my-plan-id --add "Write docs" --at 3');
+  console.log('  $ code-planner refine my-plan-id "we use Postgres, not Mongo"');
+  console.log('  $ code-planner expand my-plan-id --step 2');
+  console.log('  $ code-planner start my-plan-id --step 2');
+  console.log('  $ code-planner stop my-plan-id');
+  console.log('  $ code-planner progress my-plan-id --step 2 --branch');
+  console.log('  $ code-planner hook');
+  console.log('  $ code-planner link');
+  console.log('  $ code-planner report --all');
+  console.log('  $ code-planner stats --days 14');
+  console.log('  $ code-planner verify my-plan-id --mark');
+  console.log('  $ code-planner scaffold my-plan-id --dir ./my-app --dry-run');
+  console.log('  $ code-planner status my-plan-id paused --note "waiting on design"');
+  console.log('  $ code-planner archive my-plan-id');
+  console.log('  $ code-planner prune --dry-run');
+  console.log('  $ code-planner delete my-plan-id');
+  console.log('  $ code-planner history my-plan-id');
+  console.log('  $ code-planner diff my-plan-id 3 5');
+  console.log('  $ code-planner undo my-plan-id');
+  console.log('  $ code-planner export my-plan-id --format md');
+  console.log('  $ code-planner import ./ROADMAP.md');
+  console.log('  $ code-planner init');
+  console.log('  $ code-planner list --global');
+  console.log('  $ code-planner --json show my-plan-id');
+  console.log('  $ code-planner --no-interactive progress my-plan-id --step 2 --complete');
+  console.log('  $ code-planner migrate --to sqlite');
+  console.log('  $ code-planner doctor --fix');
+  console.log('  $ code-planner upgrade --dry-run');
   console.log('  $ code-planner config --set-api-key');
   console.log('');
   console.log(chalk.yellow('First time setup:'));
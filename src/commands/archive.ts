@@ -0,0 +1,69 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { archivePlans, isArchived } from '../utils/planArchive';
+import { createSpinner, emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const archiveCommand = new Command('archive')
+  .description('Archive a plan to hide it from list (or restore it)')
+  .argument('<planId>', 'ID or title of the plan')
+  .option('-r, --restore', 'Move an archived plan back to the active plans')
+  .action(async (planId: string, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'archive',
+        promptMessage: '🗄️  Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      if (options.restore) {
+        if (!isArchived(plan)) {
+          console.log(chalk.yellow(`🚫 "${plan.title}" is not archived`));
+          emitJson({ plan: planSummary(plan), changed: false });
+          return;
+        }
+
+        delete plan.archivedAt;
+        await storage.savePlan(plan);
+        emitJson({ plan: planSummary(plan), changed: true });
+        console.log(chalk.green(`✅ Restored "${plan.title}"`));
+        return;
+      }
+
+      if (isArchived(plan)) {
+        console.log(chalk.yellow(`🚫 "${plan.title}" was already archived on ${plan.archivedAt!.toLocaleDateString()}`));
+        emitJson({ plan: planSummary(plan), changed: false });
+        return;
+      }
+
+      if (plan.status !== 'completed') {
+        console.log(chalk.yellow(`⚠️  Archiving a plan that is still ${plan.status}`));
+      }
+
+      const spinner = createSpinner('🗄️  Archiving plan...').start();
+      await archivePlans(storage, [plan]);
+      spinner.succeed(`Archived "${plan.title}"`);
+      emitJson({ plan: planSummary(plan), changed: true });
+
+      console.log(chalk.gray(`💡 Use "code-planner archive ${plan.id} --restore" to bring it back`));
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error archiving plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
@@ -1,14 +1,24 @@
 import { Command } from 'commander';
-import inquirer from 'inquirer';
 import chalk from 'chalk';
-import ora from 'ora';
+import path from 'path';
 import { ConfigManager } from '../config/ConfigManager';
+import { PLAN_PROVIDERS, isPlanProviderName } from '../ai/providerFactory';
+import { DEFAULT_REPAIR_ATTEMPTS } from '../ai/BasePlanner';
+import { PlannerConfig } from '../types';
+import { createSpinner, emitJson, printPlain } from '../utils/output';
+import { promptUser } from '../utils/prompt';
 
 export const configCommand = new Command('config')
   .description('Manage codePlanner configuration')
   .option('--set-api-key', 'Set your Gemini API key interactively')
+  .option('--set-provider <provider>', `Set the default AI provider (${PLAN_PROVIDERS.join('/')})`)
+  .option('--set-model <model>', 'Set the default model for the AI provider')
+  .option('--set-base-url <url>', 'Set the endpoint for OpenAI-compatible or local providers')
+  .option('--set-max-plans <number>', 'Set how many active plans to keep before old completed ones are archived', (value: string) => parseInt(value, 10))
+  .option('--set-output-dir <dir>', 'Set the default directory for exports and scaffolding')
   .option('--show', 'Show current configuration')
   .option('--reset', 'Reset configuration to defaults')
+  .option('-y, --yes', 'Reset without asking')
   .action(async (options) => {
     
     const configManager = new ConfigManager();
@@ -16,10 +26,16 @@ export const configCommand = new Command('config')
     try {
       if (options.setApiKey) {
         await setApiKeyInteractive(configManager);
+      } else if (options.setProvider || options.setModel || options.setBaseUrl) {
+        await setProviderSettings(configManager, options);
+      } else if (options.setMaxPlans !== undefined) {
+        await setMaxPlans(configManager, options.setMaxPlans);
+      } else if (options.setOutputDir) {
+        await setOutputDir(configManager, options.setOutputDir);
       } else if (options.show) {
         await showConfig(configManager);
       } else if (options.reset) {
-        await resetConfig(configManager);
+        await resetConfig(configManager, options.yes);
       } else {
         // Default: show setup guide
         await showSetupGuide(configManager);
@@ -40,7 +56,7 @@ async function setApiKeyInteractive(configManager: ConfigManager): Promise<void>
   console.log(chalk.gray('   3. Click "Create API Key"'));
   console.log(chalk.gray('   4. Copy the generated key\n'));
   
-  const { apiKey } = await inquirer.prompt([
+  const { apiKey } = await promptUser([
     {
       type: 'password',
       name: 'apiKey',
@@ -55,9 +71,9 @@ async function setApiKeyInteractive(configManager: ConfigManager): Promise<void>
         return true;
       }
     }
-  ]);
+  ], 'set GEMINI_API_KEY in the environment instead');
   
-  const spinner = ora('💾 Saving API key...').start();
+  const spinner = createSpinner('💾 Saving API key...').start();
   
   try {
     await configManager.setApiKey(apiKey.trim());
@@ -71,15 +87,85 @@ async function setApiKeyInteractive(configManager: ConfigManager): Promise<void>
   }
 }
 
+async function setProviderSettings(
+  configManager: ConfigManager,
+  options: { setProvider?: string; setModel?: string; setBaseUrl?: string }
+): Promise<void> {
+  const config = await configManager.loadConfig();
+  
+  if (options.setProvider) {
+    if (!isPlanProviderName(options.setProvider)) {
+      throw new Error(`Unknown provider "${options.setProvider}". Available: ${PLAN_PROVIDERS.join(', ')}`);
+    }
+    
+    // Model and endpoint are provider specific, so switching resets them
+    if (config.provider !== options.setProvider) {
+      delete config.model;
+      delete config.providerBaseUrl;
+    }
+    config.provider = options.setProvider;
+  }
+  
+  if (options.setModel) {
+    config.model = options.setModel;
+  }
+  
+  if (options.setBaseUrl) {
+    config.providerBaseUrl = options.setBaseUrl;
+  }
+  
+  await configManager.saveConfig(config);
+  emitJson({ config: publicConfig(config) });
+  
+  console.log(chalk.green('✅ Provider settings saved'));
+  console.log(`${chalk.gray('🤖 Provider:')} ${config.provider || 'gemini'}`);
+  console.log(`${chalk.gray('🧠 Model:')} ${config.model || chalk.gray('provider default')}`);
+  if (config.providerBaseUrl) {
+    console.log(`${chalk.gray('🌐 Endpoint:')} ${config.providerBaseUrl}`);
+  }
+}
+
+async function setMaxPlans(configManager: ConfigManager, maxPlans: number): Promise<void> {
+  if (!Number.isInteger(maxPlans) || maxPlans < 1) {
+    throw new Error('Max plans must be a whole number of 1 or more');
+  }
+  
+  const config = await configManager.loadConfig();
+  config.maxPlans = maxPlans;
+  await configManager.saveConfig(config);
+  emitJson({ config: publicConfig(config) });
+  
+  console.log(chalk.green(`✅ Keeping up to ${maxPlans} active plans`));
+  console.log(chalk.gray('💡 Run "code-planner prune" to archive old completed plans now'));
+}
+
+async function setOutputDir(configManager: ConfigManager, outputDir: string): Promise<void> {
+  const config = await configManager.loadConfig();
+  config.defaultOutputDir = path.resolve(outputDir);
+  await configManager.saveConfig(config);
+  emitJson({ config: publicConfig(config) });
+  
+  console.log(chalk.green(`✅ Exports and scaffolds go to ${config.defaultOutputDir}`));
+}
+
 async function showConfig(configManager: ConfigManager): Promise<void> {
   console.log(chalk.blue('⚙️  Current Configuration:\n'));
   
   const config = await configManager.loadConfig();
+  emitJson({ config: publicConfig(config) });
+  // API keys only as set/environment/missing, like in the JSON output
+  Object.entries(publicConfig(config)).forEach(([key, value]) => printPlain(`${key}\t${value}`));
   
   console.log(`${chalk.gray('🔑 API Key:')} ${config.geminiApiKey ? 
     chalk.green('✅ Set (hidden)') : 
     chalk.red('❌ Not set')}`);
-  console.log(`${chalk.gray('📁 Output Directory:')} ${config.defaultOutputDir}`);
+  console.log(`${chalk.gray('🤖 Provider:')} ${config.provider || 'gemini'}`);
+  console.log(`${chalk.gray('🧠 Model:')} ${config.model || chalk.gray('provider default')}`);
+  if (config.providerBaseUrl) {
+    console.log(`${chalk.gray('🌐 Endpoint:')} ${config.providerBaseUrl}`);
+  }
+  console.log(`${chalk.gray('🔧 AI Repair Attempts:')} ${config.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS}`);
+  console.log(`${chalk.gray('📁 Output Directory:')} ${config.defaultOutputDir || chalk.gray('current project directory')}`);
   console.log(`${chalk.gray('📊 Max Plans:')} ${config.maxPlans}`);
   
   // Check environment variable fallback
@@ -94,30 +180,32 @@ async function showConfig(configManager: ConfigManager): Promise<void> {
   }
 }
 
-async function resetConfig(configManager: ConfigManager): Promise<void> {
-  const { confirm } = await inquirer.prompt([
-    {
-      type: 'confirm',
-      name: 'confirm',
-      message: 'Are you sure you want to reset all configuration?',
-      default: false
+async function resetConfig(configManager: ConfigManager, skipConfirmation: boolean = false): Promise<void> {
+  if (!skipConfirmation) {
+    const { confirm } = await promptUser([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Are you sure you want to reset all configuration?',
+        default: false
+      }
+    ], 'pass --yes to reset the configuration');
+    
+    if (!confirm) {
+      console.log(chalk.yellow('🚫 Configuration reset cancelled'));
+      return;
     }
-  ]);
-  
-  if (!confirm) {
-    console.log(chalk.yellow('🚫 Configuration reset cancelled'));
-    return;
   }
   
-  const spinner = ora('🔄 Resetting configuration...').start();
+  const spinner = createSpinner('🔄 Resetting configuration...').start();
   
   const defaultConfig = {
-    defaultOutputDir: process.cwd(),
     maxPlans: 50
   };
   
   await configManager.saveConfig(defaultConfig);
   spinner.succeed('✅ Configuration reset to defaults');
+  emitJson({ config: publicConfig(defaultConfig) });
 }
 
 async function showSetupGuide(configManager: ConfigManager): Promise<void> {
@@ -125,6 +213,7 @@ async function showSetupGuide(configManager: ConfigManager): Promise<void> {
   
   const config = await configManager.loadConfig();
   const hasApiKey = config.geminiApiKey || process.env.GEMINI_API_KEY;
+  emitJson({ config: publicConfig(config) });
   
   if (hasApiKey) {
     console.log(chalk.green('✅ You\'re all set up!\n'));
@@ -146,3 +235,15 @@ async function showSetupGuide(configManager: ConfigManager): Promise<void> {
   
   console.log(chalk.gray('\nFor help: code-planner --help'));
 }
+
+// Config as printed by --json: API keys are reported as set or not, never their value
+function publicConfig(config: PlannerConfig) {
+  const { geminiApiKey, openaiApiKey, ...settings } = config;
+  return {
+    ...settings,
+    provider: config.provider || 'gemini',
+    maxRepairAttempts: config.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS,
+    geminiApiKey: geminiApiKey ? 'set' : process.env.GEMINI_API_KEY ? 'environment' : 'missing',
+    openaiApiKey: openaiApiKey ? 'set' : process.env.OPENAI_API_KEY ? 'environment' : 'missing'
+  };
+}
@@ -1,11 +1,16 @@
 import { Command } from 'commander';
-import inquirer from 'inquirer';
 import chalk from 'chalk';
-import ora from 'ora';
-import { CreatePlanOptions, ProjectPlan } from '../types';
+import { CreatePlanOptions, PlanTemplate, ProjectPlan } from '../types';
 import { FileStorage } from '../storage/FileStorage';
-import { GeminiPlanner } from '../ai/GeminiPlanner';
+import { createPlanProvider, PLAN_PROVIDERS } from '../ai/providerFactory';
 import { ConfigManager } from '../config/ConfigManager';
+import { pruneOldPlans } from '../utils/planArchive';
+import { DEFAULT_CONTEXT_TOKENS, scanRepository } from '../utils/repoContext';
+import { TemplateLibrary } from '../templates/TemplateLibrary';
+import { createFallbackPlan } from '../templates/planTemplates';
+import { createSpinner, emitJson, planSummary, reportFailure } from '../utils/output';
+import { parseNonNegativeInt, parsePositiveInt } from '../utils/optionParsers';
+import { promptUser } from '../utils/prompt';
 
 export const createCommand = new Command('create')
   .description('Create a new coding plan from task description')
@@ -14,37 +19,88 @@ export const createCommand = new Command('create')
   .option('-f, --framework <framework>', 'Preferred framework')
   .option('-i, --interactive', 'Ask interactive questions')
   .option('--no-ai', 'Create basic plan without AI generation')
+  .option('--template <name>', 'Start from a plan template (see "code-planner template list"); used as is with --no-ai')
+  .option('-p, --provider <provider>', `AI provider to use (${PLAN_PROVIDERS.join('/')})`)
+  .option('-m, --model <model>', 'Model name for the selected provider')
+  .option('--base-url <url>', 'Override the provider endpoint (e.g. a local server)')
+  .option('--repair-attempts <number>', 'How often to ask the AI to fix an invalid plan before falling back', parseNonNegativeInt)
+  .option('--context <dir>', 'Plan against an existing codebase: include a summary of this directory in the prompt')
+  .option('--context-tokens <number>', `Size limit for the --context summary (default ${DEFAULT_CONTEXT_TOKENS})`, parsePositiveInt)
   
-  .action(async (task: string, options: CreatePlanOptions & { noAi?: boolean }) => {
+  .action(async (task: string, options) => {
     console.log(chalk.blue('[*] Creating your coding plan...'));
     
     const storage = new FileStorage();
     const configManager = new ConfigManager();
     
     try {
+      if (options.contextTokens !== undefined && !options.context) {
+        console.error(chalk.red('❌ --context-tokens needs --context <dir>'));
+        process.exit(1);
+      }
+
       // Initialize config
       await configManager.initConfig();
       
-      let plan: ProjectPlan; // Fixed: Initialize with type
+      let template: PlanTemplate | undefined;
+      if (options.template) {
+        const entry = await new TemplateLibrary(storage.getLocation()).find(options.template);
+        if (!entry) {
+          console.error(chalk.red(`❌ Template "${options.template}" not found`));
+          console.log(chalk.gray('   Run "code-planner template list" to see the available templates'));
+          reportFailure('not_found', `Template "${options.template}" not found`);
+          return;
+        }
+        template = entry.template;
+        console.log(chalk.gray(` Using the ${entry.source === 'builtin' ? 'built-in' : entry.source} template "${template.name}"`));
+      }
+      
+      const planOptions: CreatePlanOptions = {
+        task,
+        projectType: options.type,
+        framework: options.framework,
+        interactive: options.interactive,
+        provider: options.provider,
+        model: options.model,
+        baseUrl: options.baseUrl,
+        repairAttempts: options.repairAttempts,
+        template
+      };
       
-      if (options.noAi) {
+      let plan: ProjectPlan;
+      
+      // commander stores --no-ai as ai: false
+      if (options.ai === false) {
         // Create basic plan without AI
-        const spinner = ora('Creating basic plan...').start();
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        plan = await createBasicPlan(task, options); // Fixed: assign result
-        spinner.succeed('Basic plan created!');
-        console.log(chalk.yellow(' Created basic plan without AI assistance'));
+        const spinner = createSpinner(template ? `Creating plan from template "${template.name}"...` : 'Creating basic plan...').start();
+        plan = createFallbackPlan(task, planOptions);
+        spinner.succeed(template ? 'Plan created from template!' : 'Basic plan created!');
+        console.log(chalk.yellow(' Created plan without AI assistance'));
       } else {
+        // Summarize the existing codebase first: a wrong --context dir is an error, not a reason to fall back
+        let repositoryContext: string | undefined;
+        if (options.context) {
+          const contextSpinner = createSpinner(`Reading ${options.context}...`).start();
+          const context = await scanRepository(options.context, options.contextTokens ?? DEFAULT_CONTEXT_TOKENS);
+          repositoryContext = context.text;
+          contextSpinner.succeed(`Repository context: ${context.listedFiles} of ${context.fileCount} files listed (~${context.tokens} tokens)`);
+        }
+        
         // Use AI to generate plan
-        const spinner = ora('AI analyzing your task...').start();
+        const spinner = createSpinner('AI analyzing your task...').start();
         
         try {
-          const apiKey = await configManager.ensureApiKey();
-          const geminiPlanner = new GeminiPlanner(apiKey);
+          const planner = await createPlanProvider(configManager, {
+            provider: options.provider,
+            model: options.model,
+            baseUrl: options.baseUrl
+          });
           
-          spinner.text = ' Generating intelligent plan...';
-          plan = await geminiPlanner.generatePlan(task, options);
+          const config = await configManager.loadConfig();
+          const repairAttempts = options.repairAttempts ?? config.maxRepairAttempts;
+          
+          spinner.text = ` Generating intelligent plan with ${planner.name} (${planner.model})...`;
+          plan = await planner.generatePlan(task, { ...planOptions, repairAttempts, repositoryContext });
           
           spinner.succeed(' AI plan generated successfully!');
         } catch (error: unknown) {
@@ -53,14 +109,24 @@ export const createCommand = new Command('create')
           console.log(chalk.yellow(` ${errorMessage}`));
           
           // Fallback to basic plan creation
-          plan = await createBasicPlan(task, options);
+          plan = createFallbackPlan(task, planOptions);
         }
       }
       
       // Save the plan
-      const saveSpinner = ora('Saving plan...').start();
+      const saveSpinner = createSpinner('Saving plan...').start();
       await storage.savePlan(plan);
       saveSpinner.succeed('Plan saved successfully!');
+      if (storage.getLocation().scope === 'local') {
+        console.log(chalk.gray(` Stored with the project in ${storage.getLocation().plansDir}`));
+      }
+      
+      // Keep the number of active plans within maxPlans
+      const config = await configManager.loadConfig();
+      const archived = await pruneOldPlans(storage, config.maxPlans);
+      if (archived.length > 0) {
+        console.log(chalk.gray(` Archived ${archived.length} old completed plan(s) to stay within ${config.maxPlans} plans`));
+      }
       
       // Display results
       console.log(chalk.green('\nPlan Created:'));
@@ -71,14 +137,14 @@ export const createCommand = new Command('create')
       console.log(chalk.white(`Steps: ${plan.steps.length} tasks planned`));
       
       if (options.interactive) {
-        const answers = await inquirer.prompt([
+        const answers = await promptUser([
           {
             type: 'confirm',
             name: 'viewPlan',
             message: 'Would you like to view the detailed plan now?',
             default: true
           }
-        ]);
+        ], 'run without --interactive');
         
         if (answers.viewPlan) {
           console.log(chalk.blue('\n Plan Overview:'));
@@ -93,6 +159,7 @@ export const createCommand = new Command('create')
       console.log(chalk.gray('Use "code-planner list" to see all plans'));
       console.log(chalk.gray(` Use "code-planner show ${plan.id}" for details`));
       console.log(chalk.gray(` Use "code-planner progress ${plan.id}" to start`));
+      emitJson({ plan, archived: archived.map(planSummary) });
       
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -100,70 +167,3 @@ export const createCommand = new Command('create')
       process.exit(1);
     }
   });
-
-// Helper function for basic plan creation (fallback)
-async function createBasicPlan(task: string, options: CreatePlanOptions): Promise<ProjectPlan> {
-  const { generatePlanId, generateStepId } = await import('../utils/idGenerator');
-  
-  const planId = generatePlanId(task);
-  const now = new Date();
-  
-  const basicSteps = [
-    {
-      id: generateStepId(1),
-      title: 'Project Planning & Setup',
-      description: 'Plan the project structure and initialize the development environment',
-      files: ['README.md', 'package.json'],
-      dependencies: [],
-      completed: false,
-      order: 1
-    },
-    {
-      id: generateStepId(2),
-      title: 'Core Implementation',
-      description: `Implement the main functionality for: ${task}`,
-      files: ['src/index.js'],
-      dependencies: [],
-      completed: false,
-      order: 2
-    },
-    {
-      id: generateStepId(3),
-      title: 'Testing & Refinement',
-      description: 'Add tests and refine the implementation',
-      files: ['tests/', 'src/'],
-      dependencies: [],
-      completed: false,
-      order: 3
-    }
-  ];
-  
-  return {
-    id: planId,
-    title: task,
-    description: `Development plan for: ${task}`,
-    createdAt: now,
-    updatedAt: now,
-    status: 'planning',
-    overview: {
-      projectType: options.projectType || 'fullstack',
-      estimatedTime: 'TBD',
-      complexity: 'medium'
-    },
-    fileStructure: {
-      directories: ['src/', 'tests/'],
-      files: ['package.json', 'README.md', 'src/index.js']
-    },
-    dependencies: {
-      npm: [],
-      apis: [],
-      services: []
-    },
-    steps: basicSteps,
-    progress: {
-      completedSteps: 0,
-      totalSteps: basicSteps.length,
-      percentage: 0
-    }
-  };
-}
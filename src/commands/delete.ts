@@ -0,0 +1,70 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { createSpinner, emitJson, planSummary, reportFailure } from '../utils/output';
+import { promptUser } from '../utils/prompt';
+
+export const deleteCommand = new Command('delete')
+  .description('Permanently delete a plan')
+  .argument('<planId>', 'ID or title of the plan to delete')
+  .option('-y, --yes', 'Delete without asking for confirmation')
+  .action(async (planId: string, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'delete',
+        promptMessage: '🗑️  Select a plan to delete:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      if (!options.yes) {
+        console.log(`\n${chalk.white.bold('📌 ' + plan.title)} ${chalk.gray(`(${plan.id})`)}`);
+        console.log(chalk.gray(`   ${plan.status}, ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps completed`));
+
+        const { confirm } = await promptUser([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: 'Delete this plan permanently? This cannot be undone.',
+            default: false
+          }
+        ], 'pass --yes to delete the plan');
+
+        if (!confirm) {
+          console.log(chalk.yellow('🚫 Plan kept'));
+          emitJson({ deleted: null });
+          console.log(chalk.gray(`💡 Use "code-planner archive ${plan.id}" to hide it from list instead`));
+          return;
+        }
+      }
+
+      const spinner = createSpinner('🗑️  Deleting plan...').start();
+      const deleted = await storage.deletePlan(plan.id);
+
+      if (!deleted) {
+        spinner.fail('Could not delete the plan file');
+        process.exit(1);
+      }
+
+      spinner.succeed(`Deleted "${plan.title}"`);
+      emitJson({ deleted: planSummary(plan) });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error deleting plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
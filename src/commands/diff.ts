@@ -0,0 +1,64 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { diffPlans, printPlanDiff, serializeDiff } from '../utils/planDiff';
+import { emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const diffCommand = new Command('diff')
+  .description('Show what changed in a plan between two revisions')
+  .argument('<planId>', 'ID or title of the plan')
+  .argument('<rev1>', 'Older revision number')
+  .argument('[rev2]', 'Newer revision number (defaults to the current plan)')
+  .action(async (planId: string, rev1: string, rev2: string | undefined) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const from = parseInt(rev1, 10);
+      const to = rev2 === undefined ? undefined : parseInt(rev2, 10);
+
+      if (Number.isNaN(from) || (to !== undefined && Number.isNaN(to))) {
+        console.error(chalk.red('❌ Revisions must be numbers, see "code-planner history <planId>"'));
+        process.exit(1);
+      }
+
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'diff',
+        promptMessage: '🔀 Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const before = await storage.loadRevision(plan.id, from);
+      const after = to === undefined ? null : await storage.loadRevision(plan.id, to);
+
+      if (!before || (to !== undefined && !after)) {
+        console.error(chalk.red(`❌ Revision ${!before ? from : to} not found`));
+        console.log(chalk.gray(`💡 Use "code-planner history ${plan.id}" to list revisions`));
+        reportFailure('not_found', `Revision ${!before ? from : to} not found`);
+        return;
+      }
+
+      const diff = diffPlans(before.plan, after ? after.plan : plan);
+      emitJson({ plan: planSummary(plan), from: before.revision, to: after ? after.revision : plan.revision, diff: serializeDiff(diff) });
+
+      const label = after ? `#${after.revision}` : 'current';
+      console.log(chalk.blue(`\n🔀 "${plan.title}": #${before.revision} → ${label}`));
+      printPlanDiff(diff);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error comparing revisions:'), errorMessage);
+      process.exit(1);
+    }
+  });
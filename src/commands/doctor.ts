@@ -0,0 +1,56 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { createSpinner, emitJson, reportFailure } from '../utils/output';
+
+export const doctorCommand = new Command('doctor')
+  .description('Check the plan store for unreadable plans and quarantine them')
+  .option('--fix', 'Move unreadable plans to quarantine so the other plans work again')
+  .action(async (options) => {
+
+    const storage = new FileStorage();
+    const location = storage.getLocation();
+
+    try {
+      const store = storage.getStore();
+      console.log(chalk.blue(`🩺 Checking ${location.scope} ${store.backend} store: ${store.location}`));
+
+      const spinner = createSpinner('Reading every plan...').start();
+      const corrupt = await store.check();
+
+      if (corrupt.length === 0) {
+        spinner.succeed('All plans are readable');
+        emitJson({ corrupt: [], quarantined: [] });
+        return;
+      }
+
+      spinner.warn(`${corrupt.length} unreadable plan(s)`);
+      corrupt.forEach(plan => {
+        console.log(`\n   ${chalk.red('✖')} ${chalk.white(plan.id)}`);
+        console.log(chalk.gray(`     ${plan.location}`));
+        plan.reason.split('\n').forEach(line => console.log(chalk.gray(`     ${line}`)));
+      });
+
+      if (!options.fix) {
+        console.log(chalk.gray('\n💡 Run "code-planner doctor --fix" to move them to quarantine'));
+        reportFailure('error', `${corrupt.length} unreadable plan(s)`, { corrupt });
+        process.exit(1);
+      }
+
+      console.log('');
+      const quarantined: string[] = [];
+      for (const plan of corrupt) {
+        const target = await store.quarantine(plan);
+        quarantined.push(target);
+        console.log(`   ${chalk.yellow('🗄️  Quarantined')} ${plan.id} → ${target}`);
+      }
+      console.log(chalk.green('\n✅ The remaining plans can be used again'));
+      console.log(chalk.gray('   Quarantined plans are kept, so they can be repaired by hand and imported.'));
+      emitJson({ corrupt, quarantined });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error checking plans:'), errorMessage);
+      process.exit(1);
+    }
+  });
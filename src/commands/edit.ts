@@ -0,0 +1,277 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import {
+  addStep,
+  getStepByNumber,
+  moveStep,
+  parseList,
+  removeStep,
+  updateStep
+} from '../utils/planEditor';
+import { ProjectPlan } from '../types';
+import { createSpinner, emitJson, reportFailure } from '../utils/output';
+import { promptUser } from '../utils/prompt';
+
+const toNumber = (value: string) => parseInt(value, 10);
+
+interface EditFlags {
+  add?: string;
+  at?: number;
+  remove?: number;
+  move?: number;
+  to?: number;
+  step?: number;
+  title?: string;
+  description?: string;
+  files?: string;
+}
+
+export const editCommand = new Command('edit')
+  .description('Add, remove, reorder or rewrite the steps of a plan')
+  .argument('<planId>', 'ID or title of the plan to edit')
+  .option('--add <title>', 'Add a new step with this title')
+  .option('--at <position>', 'Position for the new step (defaults to the end)', toNumber)
+  .option('--remove <step>', 'Remove a step', toNumber)
+  .option('--move <step>', 'Move a step (use with --to)', toNumber)
+  .option('--to <position>', 'New position for the moved step', toNumber)
+  .option('-s, --step <step>', 'Step to rewrite (use with --title/--description/--files)', toNumber)
+  .option('--title <title>', 'New step title')
+  .option('--description <text>', 'Step description')
+  .option('--files <files>', 'Comma-separated list of files for the step')
+  .action(async (planId: string, options: EditFlags) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'edit',
+        promptMessage: '✏️  Select a plan to edit:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const scripted = options.add !== undefined || options.remove !== undefined ||
+        options.move !== undefined || options.step !== undefined;
+
+      const changed = scripted
+        ? applyFlagEdits(plan, options)
+        : await runInteractiveEditor(plan);
+
+      if (!changed) {
+        console.log(chalk.yellow('🚫 No changes made'));
+        emitJson({ plan, changed: false });
+        return;
+      }
+
+      const spinner = createSpinner('💾 Saving plan...').start();
+      await storage.updatePlan(plan);
+      spinner.succeed('Plan updated!');
+
+      displaySteps(plan);
+      emitJson({ plan, changed: true });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error editing plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+function applyFlagEdits(plan: ProjectPlan, options: EditFlags): boolean {
+  const files = options.files !== undefined ? parseList(options.files) : undefined;
+
+  if (options.add !== undefined && options.step !== undefined) {
+    throw new Error('Use either --add or --step, --description/--files would be ambiguous');
+  }
+
+  // Removing or moving renumbers the steps, so a second edit's step number would be unclear
+  const edits = [options.add, options.remove, options.move, options.step].filter(edit => edit !== undefined);
+  if ((options.remove !== undefined || options.move !== undefined) && edits.length > 1) {
+    throw new Error('Use --remove and --move on their own, not together with other edits');
+  }
+
+  if (options.remove !== undefined) {
+    const removed = removeStep(plan, options.remove);
+    console.log(chalk.red(`🗑️  Removed step ${options.remove}: ${removed.title}`));
+  }
+
+  if (options.move !== undefined) {
+    if (options.to === undefined) {
+      throw new Error('--move requires --to <position>');
+    }
+    const moved = moveStep(plan, options.move, options.to);
+    console.log(chalk.blue(`↕️  Moved "${moved.title}" to position ${moved.order}`));
+  }
+
+  if (options.step !== undefined) {
+    if (options.title === undefined && options.description === undefined && files === undefined) {
+      throw new Error('--step requires --title, --description or --files');
+    }
+    const step = updateStep(plan, options.step, {
+      title: options.title,
+      description: options.description,
+      files
+    });
+    console.log(chalk.green(`✏️  Updated step ${step.order}: ${step.title}`));
+  }
+
+  if (options.add !== undefined) {
+    const step = addStep(plan, {
+      title: options.add,
+      description: options.description,
+      files
+    }, options.at);
+    console.log(chalk.green(`➕ Added step ${step.order}: ${step.title}`));
+  }
+
+  return true;
+}
+
+async function runInteractiveEditor(plan: ProjectPlan): Promise<boolean> {
+  let changed = false;
+
+  for (;;) {
+    displaySteps(plan);
+
+    const { action } = await promptUser([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to change?',
+        choices: [
+          { name: '➕ Add a step', value: 'add' },
+          { name: '✏️  Edit a step', value: 'update' },
+          { name: '↕️  Move a step', value: 'move' },
+          { name: '🗑️  Remove a step', value: 'remove' },
+          new inquirer.Separator(),
+          { name: '💾 Save and exit', value: 'save' },
+          { name: '🚫 Discard changes', value: 'cancel' }
+        ]
+      }
+    ], 'use --add, --remove, --move or --step to edit without prompts');
+
+    if (action === 'save') {
+      return changed;
+    }
+    if (action === 'cancel') {
+      return false;
+    }
+
+    // Bad input shouldn't throw away the edits made so far
+    try {
+      changed = await applyInteractiveAction(plan, action) || changed;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red(`❌ ${errorMessage}`));
+    }
+  }
+}
+
+async function applyInteractiveAction(plan: ProjectPlan, action: string): Promise<boolean> {
+  if (action === 'add') {
+    const answers = await promptUser([
+      { type: 'input', name: 'title', message: 'Step title:', validate: (input: string) => input.trim() ? true : 'Title cannot be empty' },
+      { type: 'input', name: 'description', message: 'Description:' },
+      { type: 'input', name: 'files', message: 'Files (comma-separated):' },
+      {
+        type: 'number',
+        name: 'position',
+        message: `Position (1-${plan.steps.length + 1}):`,
+        default: plan.steps.length + 1
+      }
+    ], 'use --add, --remove, --move or --step to edit without prompts');
+    addStep(plan, {
+      title: answers.title.trim(),
+      description: answers.description,
+      files: parseList(answers.files)
+    }, answers.position);
+    return true;
+  }
+
+  if (plan.steps.length === 0) {
+    console.log(chalk.yellow('📝 This plan has no steps yet'));
+    return false;
+  }
+
+  const stepNumber = await pickStep(plan);
+
+  if (action === 'update') {
+    const step = getStepByNumber(plan, stepNumber);
+    const answers = await promptUser([
+      { type: 'input', name: 'title', message: 'Title:', default: step.title },
+      { type: 'input', name: 'description', message: 'Description:', default: step.description },
+      { type: 'input', name: 'files', message: 'Files (comma-separated):', default: step.files.join(', ') }
+    ], 'use --add, --remove, --move or --step to edit without prompts');
+    updateStep(plan, stepNumber, {
+      title: answers.title,
+      description: answers.description,
+      files: parseList(answers.files)
+    });
+    return true;
+  } else if (action === 'move') {
+    const { position } = await promptUser([
+      {
+        type: 'number',
+        name: 'position',
+        message: `Move to position (1-${plan.steps.length}):`,
+        default: stepNumber
+      }
+    ], 'use --add, --remove, --move or --step to edit without prompts');
+    moveStep(plan, stepNumber, position);
+    return true;
+  } else if (action === 'remove') {
+    const step = getStepByNumber(plan, stepNumber);
+    const { confirm } = await promptUser([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `Remove step ${stepNumber}: "${step.title}"?`,
+        default: false
+      }
+    ], 'use --add, --remove, --move or --step to edit without prompts');
+    if (confirm) {
+      removeStep(plan, stepNumber);
+      return true;
+    }
+  }
+
+  return false;
+}
+
+async function pickStep(plan: ProjectPlan): Promise<number> {
+  const { stepNumber } = await promptUser([
+    {
+      type: 'list',
+      name: 'stepNumber',
+      message: 'Choose a step:',
+      choices: plan.steps.map(step => ({
+        name: `${step.order}. ${step.title}`,
+        value: step.order,
+        short: `Step ${step.order}`
+      }))
+    }
+  ], 'use --add, --remove, --move or --step to edit without prompts');
+  return stepNumber;
+}
+
+function displaySteps(plan: ProjectPlan): void {
+  console.log(chalk.yellow(`\n📝 Steps of "${plan.title}":`));
+  plan.steps.forEach(step => {
+    const statusIcon = step.completed ? chalk.green('✅') : chalk.red('⭕');
+    const files = step.files.length > 0 ? chalk.gray(` [${step.files.join(', ')}]`) : '';
+    console.log(`   ${step.order}. ${statusIcon} ${step.title}${files}`);
+  });
+  console.log('');
+}
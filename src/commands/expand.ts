@@ -0,0 +1,133 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { ConfigManager } from '../config/ConfigManager';
+import { createPlanProvider, PLAN_PROVIDERS } from '../ai/providerFactory';
+import { selectPlanId } from '../utils/planSelector';
+import { findStepByPath, flattenSteps, hasSubSteps } from '../utils/stepTree';
+import { PlanStep } from '../types';
+import { createSpinner, emitJson, planSummary, reportFailure, stepSummary } from '../utils/output';
+import { parseNonNegativeInt } from '../utils/optionParsers';
+import { promptUser } from '../utils/prompt';
+
+export const expandCommand = new Command('expand')
+  .description('Break a plan step down into sub-steps with AI')
+  .argument('<planId>', 'ID or title of the plan')
+  .option('-s, --step <stepNumber>', 'Step to expand (1, 2, or 3.1 for a sub-step)')
+  .option('-y, --yes', 'Save the sub-steps without asking')
+  .option('-p, --provider <provider>', `AI provider to use (${PLAN_PROVIDERS.join('/')})`)
+  .option('-m, --model <model>', 'Model name for the selected provider')
+  .option('--base-url <url>', 'Override the provider endpoint (e.g. a local server)')
+  .option('--repair-attempts <number>', 'How often to ask the AI to fix an invalid response', parseNonNegativeInt)
+  .action(async (planId: string, options) => {
+
+    const storage = new FileStorage();
+    const configManager = new ConfigManager();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'expand',
+        promptMessage: '🔬 Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      let stepNumber: string = options.step;
+      if (!stepNumber) {
+        const { selectedStep } = await promptUser([
+          {
+            type: 'list',
+            name: 'selectedStep',
+            message: 'Which step should be broken down?',
+            choices: flattenSteps(plan.steps).map(({ step, path, depth }) => ({
+              name: `${'   '.repeat(depth)}${path}. ${step.title}`,
+              value: path,
+              short: `Step ${path}`
+            }))
+          }
+        ], 'pass the step to expand with --step <n>');
+        stepNumber = selectedStep;
+      }
+
+      const entry = findStepByPath(plan.steps, stepNumber);
+      if (!entry) {
+        console.error(chalk.red(`❌ Step ${stepNumber} not found. Plan has ${plan.steps.length} steps.`));
+        reportFailure('not_found', `Step ${stepNumber} not found`);
+        return;
+      }
+
+      const step = entry.step;
+
+      if (hasSubSteps(step)) {
+        console.log(chalk.yellow(`⚠️  Step ${entry.path} already has ${step.subSteps!.length} sub-steps; they will be replaced`));
+      }
+
+      const spinner = createSpinner(`🤖 Breaking down "${step.title}"...`).start();
+
+      let subSteps: PlanStep[];
+      try {
+        const planner = await createPlanProvider(configManager, {
+          provider: options.provider,
+          model: options.model,
+          baseUrl: options.baseUrl
+        });
+        const config = await configManager.loadConfig();
+
+        subSteps = await planner.expandStep(plan, step, {
+          repairAttempts: options.repairAttempts ?? config.maxRepairAttempts
+        });
+        spinner.succeed(`${subSteps.length} sub-steps generated!`);
+      } catch (error: unknown) {
+        spinner.fail('AI could not expand the step');
+        throw error;
+      }
+
+      console.log(chalk.blue(`\n🔬 ${entry.path}. ${step.title}`));
+      subSteps.forEach(subStep => {
+        console.log(`   ${entry.path}.${subStep.order}. ${chalk.white(subStep.title)}`);
+        console.log(chalk.gray(`        ${subStep.description}`));
+        if (subStep.files.length > 0) {
+          console.log(chalk.gray(`        📁 ${subStep.files.join(', ')}`));
+        }
+      });
+
+      if (!options.yes) {
+        const { confirm } = await promptUser([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: 'Save these sub-steps?',
+            default: true
+          }
+        ], 'pass --yes to save the sub-steps');
+
+        if (!confirm) {
+          console.log(chalk.yellow('🚫 No changes made'));
+          return;
+        }
+      }
+
+      step.subSteps = subSteps;
+
+      const saveSpinner = createSpinner('💾 Saving plan...').start();
+      await storage.updatePlan(plan);
+      saveSpinner.succeed('Plan updated!');
+
+      console.log(chalk.gray(`\n💡 Use "code-planner progress ${plan.id} --step ${entry.path}.1 --complete" to track sub-steps`));
+      emitJson({ plan: planSummary(plan), step: { ...stepSummary(step, entry.path), subSteps } });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error expanding step:'), errorMessage);
+      process.exit(1);
+    }
+  });
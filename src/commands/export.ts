@@ -0,0 +1,83 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import path from 'path';
+import { FileStorage } from '../storage/FileStorage';
+import { getProjectDir } from '../storage/storageLocation';
+import { ConfigManager } from '../config/ConfigManager';
+import { selectPlanId } from '../utils/planSelector';
+import { EXPORT_FORMATS, exportFileName, formatPlan, isExportFormat } from '../utils/formatter';
+import { emitJson, isJsonOutput, planSummary, reportFailure } from '../utils/output';
+
+export const exportCommand = new Command('export')
+  .description('Export a plan as Markdown, JSON, HTML or CSV')
+  .argument('<planId>', 'ID or title of the plan to export')
+  .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join('/')})`, 'md')
+  .option('-o, --output <path>', 'File or directory to write to (defaults to the configured output directory)')
+  .option('--stdout', 'Print the export instead of writing a file')
+  .action(async (planId: string, options) => {
+
+    const storage = new FileStorage();
+    const configManager = new ConfigManager();
+
+    try {
+      if (!isExportFormat(options.format)) {
+        console.error(chalk.red(`❌ Unknown format "${options.format}". Available: ${EXPORT_FORMATS.join(', ')}`));
+        process.exit(1);
+      }
+
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'export',
+        promptMessage: '📤 Select a plan to export:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const content = formatPlan(plan, options.format);
+
+      if (options.stdout) {
+        if (isJsonOutput()) {
+          emitJson({ plan: planSummary(plan), format: options.format, content });
+        } else {
+          process.stdout.write(content);
+        }
+        return;
+      }
+
+      const outputPath = await resolveOutputPath(storage, configManager, options.output, exportFileName(plan, options.format));
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, content, 'utf-8');
+      emitJson({ plan: planSummary(plan), format: options.format, file: outputPath });
+
+      console.log(chalk.green(`✅ Exported "${plan.title}" as ${options.format}`));
+      console.log(`   ${chalk.gray('📄 File:')} ${outputPath}`);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error exporting plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+// --output may name a file or an existing directory; without it use defaultOutputDir,
+// or the project directory when none is set
+async function resolveOutputPath(storage: FileStorage, configManager: ConfigManager, output: string | undefined, fileName: string): Promise<string> {
+  if (!output) {
+    const config = await configManager.loadConfig();
+    return path.resolve(config.defaultOutputDir || getProjectDir(storage.getLocation()), fileName);
+  }
+
+  const target = path.resolve(output);
+  const isDirectory = await fs.stat(target).then(stats => stats.isDirectory()).catch(() => false);
+
+  return isDirectory || output.endsWith(path.sep) ? path.join(target, fileName) : target;
+}
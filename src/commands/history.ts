@@ -0,0 +1,59 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const historyCommand = new Command('history')
+  .description('List the saved revisions of a plan')
+  .argument('<planId>', 'ID or title of the plan')
+  .option('-l, --limit <number>', 'Maximum number of revisions to show', (value: string) => parseInt(value, 10), 20)
+  .action(async (planId: string, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'history',
+        promptMessage: '🕒 Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const revisions = await storage.listRevisions(plan.id);
+      emitJson({ plan: planSummary(plan), currentRevision: plan.revision, revisions: revisions.slice(-options.limit).reverse() });
+
+      console.log(`\n${chalk.white.bold('📌 ' + plan.title)}`);
+
+      if (revisions.length === 0) {
+        console.log(chalk.gray('   No revisions recorded yet; history starts with the next change.'));
+        return;
+      }
+
+      console.log(chalk.yellow(`\n🕒 Revisions (newest first, ${revisions.length} total):`));
+      revisions.slice(-options.limit).reverse().forEach(revision => {
+        const current = revision.revision === plan.revision ? chalk.green(' (current)') : '';
+        console.log(
+          `   ${chalk.cyan(`#${revision.revision}`)}${current}  ${chalk.gray(revision.savedAt.toLocaleString())}  ${chalk.gray(revision.author)}`
+        );
+        console.log(`      ${revision.summary}`);
+      });
+
+      console.log(chalk.gray(`\n💡 Use "code-planner diff ${plan.id} <rev1> [rev2]" to compare revisions`));
+      console.log(chalk.gray(`   Use "code-planner undo ${plan.id}" or "code-planner revert ${plan.id} <rev>" to go back`));
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error loading history:'), errorMessage);
+      process.exit(1);
+    }
+  });
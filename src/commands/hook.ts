@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import { FileStorage } from '../storage/FileStorage';
+import { getProjectDir } from '../storage/storageLocation';
+import { isGitRepository } from '../utils/git';
+import { STEP_TRAILER, installCommitMsgHook, uninstallCommitMsgHook } from '../utils/stepCommits';
+import { emitJson, reportFailure } from '../utils/output';
+
+export const hookCommand = new Command('hook')
+  .description(`Install a commit-msg hook that adds a "${STEP_TRAILER}: <planId>#<step>" trailer on step branches`)
+  .option('-d, --dir <path>', 'Git repository (defaults to the project of a local store, else the current directory)')
+  .option('-f, --force', 'Replace an existing commit-msg hook that was not installed by code-planner (kept as commit-msg.bak)')
+  .option('--uninstall', 'Remove the hook again')
+  .action(async (options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const projectDir = path.resolve(options.dir || getProjectDir(storage.getLocation()));
+      if (!await isGitRepository(projectDir)) {
+        console.error(chalk.red(`❌ ${projectDir} is not a git repository`));
+        reportFailure('error', `${projectDir} is not a git repository`);
+        return;
+      }
+
+      if (options.uninstall) {
+        const { hookPath, status } = await uninstallCommitMsgHook(projectDir);
+        if (status === 'foreign') {
+          console.error(chalk.red(`❌ ${hookPath} was not installed by code-planner, leaving it alone`));
+          reportFailure('error', `${hookPath} was not installed by code-planner`);
+          return;
+        }
+        console.log(status === 'removed'
+          ? chalk.green(`✅ Removed the commit-msg hook from ${hookPath}`)
+          : chalk.yellow(`📭 No commit-msg hook installed at ${hookPath}`));
+        emitJson({ hookPath, status });
+        return;
+      }
+
+      const { hookPath, status, backupPath } = await installCommitMsgHook(projectDir, options.force);
+      if (status === 'foreign') {
+        console.error(chalk.red(`❌ ${hookPath} already exists and was not installed by code-planner`));
+        console.log(chalk.gray('   Re-run with --force to replace it, or call the hook from your own commit-msg script'));
+        reportFailure('error', `${hookPath} already exists, use --force to replace it`);
+        return;
+      }
+
+      console.log(chalk.green(`✅ ${status === 'installed' ? 'Installed' : status === 'replaced' ? 'Replaced' : 'Updated'} the commit-msg hook at ${hookPath}`));
+      if (backupPath) {
+        console.log(chalk.yellow(`   The previous hook was moved to ${backupPath}`));
+      }
+      console.log(chalk.gray(`   Commits on plan/<planId>/step-<n> branches now get a "${STEP_TRAILER}: <planId>#<n>" trailer`));
+      console.log(chalk.gray('   💡 Start a step on its branch with "code-planner start <planId> --step <n> --branch"'));
+      console.log(chalk.gray('   💡 Run "code-planner link" to record the commits on their steps'));
+      emitJson({ hookPath, status, backupPath: backupPath || null });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error installing hook:'), errorMessage);
+      process.exit(1);
+    }
+  });
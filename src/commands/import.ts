@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import { FileStorage } from '../storage/FileStorage';
+import { ConfigManager } from '../config/ConfigManager';
+import { detectImportFormat, importPlan } from '../utils/planImporter';
+import { formatValidationErrors } from '../utils/validator';
+import { generatePlanId } from '../utils/idGenerator';
+import { flattenSteps } from '../utils/stepTree';
+import { pruneOldPlans } from '../utils/planArchive';
+import { createSpinner, emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const importCommand = new Command('import')
+  .description('Import a plan from a Markdown checklist or an exported JSON file')
+  .argument('<file>', 'Markdown (.md) or JSON (.json) file to import')
+  .option('--new-id', 'Give an imported JSON plan a fresh ID instead of keeping its own')
+  .action(async (file: string, options) => {
+
+    const storage = new FileStorage();
+    const configManager = new ConfigManager();
+
+    try {
+      const content = await fs.readFile(file, 'utf-8');
+      const format = detectImportFormat(file, content);
+      const result = importPlan(file, content);
+
+      if (!result.valid) {
+        console.error(chalk.red(`❌ ${file} is not a valid plan:`));
+        console.error(chalk.gray(formatValidationErrors(result.errors)));
+        reportFailure('error', `${file} is not a valid plan`, { errors: result.errors });
+        process.exit(1);
+      }
+
+      const plan = result.value!;
+
+      if (plan.steps.length === 0) {
+        console.error(chalk.red(`❌ No steps found in ${file}`));
+        console.log(chalk.gray('   Steps are read from checklist items like "- [ ] Write tests" or "- [x] Set up repo"'));
+        process.exit(1);
+      }
+
+      if (format === 'json') {
+        if (options.newId) {
+          plan.id = generatePlanId(plan.title);
+        } else if (await storage.loadPlan(plan.id)) {
+          console.error(chalk.red(`❌ A plan with ID "${plan.id}" already exists`));
+          console.log(chalk.gray('💡 Use --new-id to import it as a copy'));
+          process.exit(1);
+        }
+      }
+
+      const spinner = createSpinner('💾 Saving imported plan...').start();
+      if (format === 'json') {
+        // Exported plans carry their own progress and status history
+        await storage.savePlan(plan);
+      } else {
+        // Derive progress and status from the checked items
+        await storage.updatePlan(plan);
+      }
+      spinner.succeed('Plan imported!');
+
+      const config = await configManager.loadConfig();
+      const archived = await pruneOldPlans(storage, config.maxPlans);
+      if (archived.length > 0) {
+        console.log(chalk.gray(`   Archived ${archived.length} old completed plan(s) to stay within ${config.maxPlans} plans`));
+      }
+
+      const subStepCount = flattenSteps(plan.steps).length - plan.steps.length;
+      console.log(`\n${chalk.white.bold('📌 ' + plan.title)}`);
+      console.log(`   ${chalk.gray('🆔 ID:')} ${chalk.cyan(plan.id)}`);
+      console.log(`   ${chalk.gray('📝 Steps:')} ${plan.steps.length}${subStepCount > 0 ? ` (+${subStepCount} sub-steps)` : ''}`);
+      console.log(`   ${chalk.gray('📈 Progress:')} ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps (${plan.progress.percentage}%)`);
+      console.log(`   ${chalk.gray('📊 Status:')} ${plan.status}`);
+      console.log(chalk.gray(`\n💡 Use "code-planner show ${plan.id} --steps" to review`));
+      emitJson({ plan: planSummary(plan), format, archived: archived.map(planSummary) });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error importing plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
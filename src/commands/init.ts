@@ -0,0 +1,46 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import path from 'path';
+import { APP_DIR_NAME, findLocalAppDir, getGlobalAppDir } from '../storage/storageLocation';
+import { emitJson } from '../utils/output';
+
+export const initCommand = new Command('init')
+  .description(`Create a project-local ${APP_DIR_NAME} directory so plans travel with the repository`)
+  .argument('[dir]', 'Project root (defaults to the current directory)')
+  .action(async (dir: string | undefined) => {
+
+    try {
+      const projectDir = path.resolve(dir || process.cwd());
+      const appDir = path.join(projectDir, APP_DIR_NAME);
+
+      if (appDir === getGlobalAppDir()) {
+        console.error(chalk.red(`❌ ${appDir} is the global store; run init inside a project directory`));
+        process.exit(1);
+      }
+
+      const existing = findLocalAppDir(projectDir);
+      if (existing === appDir) {
+        console.log(chalk.yellow(`🚫 ${appDir} already exists`));
+        emitJson({ appDir, created: false });
+        return;
+      }
+      if (existing) {
+        console.log(chalk.yellow(`⚠️  A parent project already has plans in ${existing}`));
+        console.log(chalk.gray(`   Commands run below ${projectDir} will use the new directory instead`));
+      }
+
+      await fs.mkdir(path.join(appDir, 'plans'), { recursive: true });
+
+      console.log(chalk.green(`✅ Initialized project plans in ${appDir}`));
+      console.log(chalk.gray('   Plans created in this project are stored here; commit them with your code.'));
+      console.log(chalk.gray('   Configuration and API keys stay in your home directory.'));
+      console.log(chalk.gray('\n💡 Use --global on any command to work with your personal plans'));
+      emitJson({ appDir, created: true, parent: existing || null });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error initializing project:'), errorMessage);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,104 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import { FileStorage } from '../storage/FileStorage';
+import { getProjectDir } from '../storage/storageLocation';
+import { ProjectPlan } from '../types';
+import { selectPlanId } from '../utils/planSelector';
+import { isGitRepository } from '../utils/git';
+import { LinkResult, STEP_TRAILER, findTrailerCommits, linkCommits } from '../utils/stepCommits';
+import { createSpinner, emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const linkCommand = new Command('link')
+  .description(`Record commits with a "${STEP_TRAILER}: <planId>#<step>" trailer on their steps`)
+  .argument('[planId]', 'ID or title of the plan (defaults to every plan named by a trailer)')
+  .option('-d, --dir <path>', 'Git repository (defaults to the project of a local store, else the current directory)')
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const projectDir = path.resolve(options.dir || getProjectDir(storage.getLocation()));
+      if (!await isGitRepository(projectDir)) {
+        console.error(chalk.red(`❌ ${projectDir} is not a git repository`));
+        reportFailure('error', `${projectDir} is not a git repository`);
+        return;
+      }
+
+      let plans: ProjectPlan[];
+      if (planId) {
+        const selectedPlanId = await selectPlanId(storage, planId, {
+          command: 'link',
+          promptMessage: '🔗 Select a plan to link commits to:'
+        });
+        if (!selectedPlanId) {
+          return;
+        }
+
+        const plan = await storage.loadPlan(selectedPlanId);
+        if (!plan) {
+          console.error(chalk.red('❌ Plan not found'));
+          reportFailure('not_found', 'Plan not found');
+          return;
+        }
+        plans = [plan];
+      } else {
+        plans = await storage.listPlans();
+      }
+
+      const spinner = createSpinner(`Reading ${STEP_TRAILER} trailers in ${projectDir}...`).start();
+      const commits = await findTrailerCommits(projectDir);
+      spinner.stop();
+
+      const results: { plan: ProjectPlan; result: LinkResult }[] = [];
+      for (const plan of plans) {
+        if (!commits.some(commit => commit.planId === plan.id)) {
+          continue;
+        }
+
+        const result = linkCommits(plan, commits);
+        if (result.linked.length > 0) {
+          await storage.updatePlan(plan, { summary: `linked ${result.linked.length} commit(s)` });
+        }
+        results.push({ plan, result });
+      }
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`📭 No commits with a ${STEP_TRAILER} trailer for ${planId ? `"${plans[0].title}"` : 'any plan'}`));
+        console.log(chalk.gray('   💡 Install the hook with "code-planner hook" and commit on a step branch, or add the trailer yourself'));
+      }
+
+      results.forEach(({ plan, result }) => {
+        console.log(chalk.blue(`\n🔗 ${plan.title}`));
+        if (result.linked.length === 0) {
+          console.log(chalk.gray('   Up to date, no new commits'));
+        }
+        result.linked.forEach(({ path: stepPath, commit }) => {
+          console.log(`   ${chalk.white(`Step ${stepPath}`)} ${chalk.cyan(commit.sha.slice(0, 7))} ${commit.subject}`);
+        });
+        result.unknownSteps.forEach(commit => {
+          console.log(chalk.yellow(`   ⚠️  ${commit.sha.slice(0, 7)} names step ${commit.stepPath}, which the plan doesn't have`));
+        });
+      });
+
+      const knownIds = new Set(plans.map(plan => plan.id));
+      const otherPlans = [...new Set(commits.map(commit => commit.planId))].filter(id => !knownIds.has(id));
+      if (!planId && otherPlans.length > 0) {
+        console.log(chalk.gray(`\n   Trailers also name plans not in this store: ${otherPlans.join(', ')}`));
+      }
+
+      emitJson({
+        projectDir,
+        plans: results.map(({ plan, result }) => ({
+          plan: planSummary(plan),
+          linked: result.linked.map(({ path: stepPath, commit }) => ({ step: stepPath, ...commit })),
+          unknownSteps: result.unknownSteps.map(commit => ({ step: commit.stepPath, sha: commit.sha, subject: commit.subject }))
+        }))
+      });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error linking commits:'), errorMessage);
+      process.exit(1);
+    }
+  });
@@ -1,38 +1,52 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
 import { FileStorage } from '../storage/FileStorage';
+import { PLAN_STATUSES, isPlanStatus } from '../utils/planStatus';
+import { isArchived } from '../utils/planArchive';
+import { createSpinner, emitJson, planSummary, printPlainPlan } from '../utils/output';
 
 export const listCommand = new Command('list')
   .description('List all saved coding plans')
-  .option('-s, --status <status>', 'Filter by status (planning/in-progress/completed/paused)')
+  .option('-s, --status <status>', `Filter by status (${PLAN_STATUSES.join('/')})`)
   .option('-l, --limit <number>', 'Maximum number of plans to show', '10')
+  .option('-a, --archived', 'Show archived plans instead of active ones')
+  .option('--all', 'Show active and archived plans')
   .action(async (options) => {
-    console.log(chalk.blue('📚 Loading your plans...'));
+    if (options.status && !isPlanStatus(options.status)) {
+      console.error(chalk.red(`❌ Unknown status "${options.status}". Valid statuses: ${PLAN_STATUSES.join(', ')}`));
+      process.exit(1);
+    }
     
     const storage = new FileStorage();
-    const spinner = ora('Fetching plans...').start();
+    const location = storage.getLocation();
+    
+    console.log(chalk.blue(location.scope === 'local'
+      ? `📚 Loading project plans from ${location.appDir}...`
+      : '📚 Loading your plans...'));
+    
+    const spinner = createSpinner('Fetching plans...').start();
     
     try {
-      // Load real plans from storage
-      let plans = await storage.listPlans();
+      // Archived plans are hidden unless asked for
+      const plans = await storage.listPlans({
+        status: options.status,
+        archived: options.all ? undefined : !!options.archived,
+        limit: parseInt(options.limit)
+      });
       
       spinner.succeed('Plans loaded!');
-      
-      // Filter by status if provided
-      if (options.status) {
-        plans = plans.filter(plan => plan.status === options.status);
-      }
-      
-      // Limit results
-      const limit = parseInt(options.limit);
-      plans = plans.slice(0, limit);
+      emitJson({ plans: plans.map(planSummary) });
+      plans.forEach(printPlainPlan);
       
       if (plans.length === 0) {
         console.log(chalk.yellow('\n📝 No plans found'));
         if (options.status) {
           console.log(chalk.gray(`   No plans with status: ${options.status}`));
         }
+        if (options.archived) {
+          console.log(chalk.gray('   No archived plans'));
+          return;
+        }
         console.log(chalk.gray('💡 Create your first plan with: code-planner create "your task"'));
         return;
       }
@@ -44,7 +58,7 @@ export const listCommand = new Command('list')
         const statusColor = getStatusColor(plan.status);
         const progressBar = createProgressBar(plan.progress.percentage);
         
-        console.log(`\n${index + 1}. ${chalk.white.bold(plan.title)}`);
+        console.log(`\n${index + 1}. ${chalk.white.bold(plan.title)}${isArchived(plan) ? chalk.gray(' [archived]') : ''}`);
         console.log(`   ${chalk.gray('ID:')} ${chalk.cyan(plan.id)}`);
         console.log(`   ${chalk.gray('Status:')} ${statusColor(plan.status.toUpperCase())}`);
         console.log(`   ${chalk.gray('Created:')} ${plan.createdAt.toLocaleDateString()}`);
@@ -54,6 +68,9 @@ export const listCommand = new Command('list')
       console.log(chalk.gray('\n─'.repeat(70)));
       console.log(chalk.gray('💡 Use "code-planner show <plan-id>" to view details'));
       console.log(chalk.gray('⚡ Use "code-planner progress <plan-id>" to update progress'));
+      if (!options.archived && !options.all) {
+        console.log(chalk.gray('🗄️  Use "code-planner list --archived" to see archived plans'));
+      }
       
     } catch (error: unknown) { // Fixed TypeScript error
       spinner.fail('Failed to load plans');
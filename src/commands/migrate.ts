@@ -0,0 +1,111 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs/promises';
+import path from 'path';
+import { FileStorage, openPlanStore } from '../storage/FileStorage';
+import { STORAGE_BACKENDS, isStorageBackend } from '../storage/PlanStore';
+import { createSpinner, emitJson } from '../utils/output';
+
+export const migrateCommand = new Command('migrate')
+  .description('Move plans between storage backends (JSON files or SQLite)')
+  .requiredOption('--to <backend>', `Target backend (${STORAGE_BACKENDS.join('/')})`)
+  .action(async (options) => {
+
+    const storage = new FileStorage();
+    const location = storage.getLocation();
+
+    try {
+      if (!isStorageBackend(options.to)) {
+        console.error(chalk.red(`❌ Unknown backend "${options.to}". Available: ${STORAGE_BACKENDS.join(', ')}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.blue(`📦 ${location.scope === 'local' ? 'Project' : 'Global'} store in ${location.appDir}`));
+
+      if (location.backend === options.to) {
+        console.log(chalk.yellow(`🚫 Already using the ${options.to} backend`));
+        emitJson({ from: location.backend, to: options.to, migrated: 0, backups: [] });
+        return;
+      }
+
+      const targetPaths = options.to === 'sqlite'
+        ? [location.databasePath]
+        : [location.plansDir, path.join(location.appDir, 'history')];
+      for (const targetPath of targetPaths) {
+        if (await hasContent(targetPath)) {
+          console.error(chalk.red(`❌ ${targetPath} already exists; move it away before migrating`));
+          process.exit(1);
+        }
+      }
+
+      const spinner = createSpinner(`Migrating plans from ${location.backend} to ${options.to}...`).start();
+
+      const source = storage.getStore();
+      const target = openPlanStore(location, options.to);
+      let migrated = 0;
+
+      try {
+        const plans = await source.list();
+        for (const plan of plans) {
+          for (const revision of await source.listRevisions(plan.id)) {
+            const snapshot = await source.loadRevision(plan.id, revision.revision);
+            if (snapshot) {
+              await target.importSnapshot(snapshot);
+            }
+          }
+          await target.save(plan, { summary: `migrated from ${location.backend}` });
+        }
+
+        const copied = await target.list();
+        if (copied.length !== plans.length) {
+          throw new Error(`only ${copied.length} of ${plans.length} plans arrived in the new store`);
+        }
+
+        migrated = plans.length;
+        spinner.succeed(`Migrated ${plans.length} plan(s) to ${options.to}`);
+      } catch (error: unknown) {
+        spinner.fail('Migration failed, the existing store was left untouched');
+        target.close();
+        for (const targetPath of targetPaths) {
+          await fs.rm(targetPath, { recursive: true, force: true });
+        }
+        throw error;
+      } finally {
+        source.close();
+      }
+      target.close();
+
+      console.log(`   ${chalk.gray('📁 Store:')} ${target.location}`);
+
+      // Keep the old store as a backup; the backend is picked by which one exists
+      const backups: string[] = [];
+      const oldPaths = source.backend === 'json'
+        ? [source.location, path.join(location.appDir, 'history')]
+        : [source.location];
+      for (const oldPath of oldPaths) {
+        if (await hasContent(oldPath)) {
+          const backupPath = `${oldPath}.bak-${Date.now()}`;
+          await fs.rename(oldPath, backupPath);
+          backups.push(backupPath);
+          console.log(`   ${chalk.gray('🗄️  Backup:')} ${backupPath}`);
+        } else {
+          await fs.rm(oldPath, { recursive: true, force: true });
+        }
+      }
+      emitJson({ from: source.backend, to: options.to, migrated, store: target.location, backups });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error migrating plans:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+async function hasContent(targetPath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(targetPath);
+    return stats.isDirectory() ? (await fs.readdir(targetPath)).length > 0 : true;
+  } catch (error) {
+    return false;
+  }
+}
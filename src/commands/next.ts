@@ -0,0 +1,191 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { ConfigManager } from '../config/ConfigManager';
+import { createPlanProvider, PLAN_PROVIDERS } from '../ai/providerFactory';
+import { selectPlanId } from '../utils/planSelector';
+import { getNextActionableStep, getOpenPrerequisites, describeSteps } from '../utils/stepGraph';
+import { setCompletedRecursive } from '../utils/stepTree';
+import { isTimerRunning, recordCompletion, startTimer } from '../utils/timeTracking';
+import { ProjectPlan, PlanStep } from '../types';
+import { createSpinner, emitJson, planSummary, reportFailure, stepSummary } from '../utils/output';
+import { promptUser } from '../utils/prompt';
+
+export const nextCommand = new Command('next')
+  .description('Show the next actionable step of a plan with AI guidance')
+  .argument('[planId]', 'ID or title of the plan (optional)')
+  .option('--start', 'Mark the step as in progress and start its timer')
+  .option('-c, --complete', 'Mark the step as completed')
+  .option('--no-ai', 'Skip AI suggestions')
+  .option('-p, --provider <provider>', `AI provider to use (${PLAN_PROVIDERS.join('/')})`)
+  .option('-m, --model <model>', 'Model name for the selected provider')
+  .option('--base-url <url>', 'Override the provider endpoint (e.g. a local server)')
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+    const configManager = new ConfigManager();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'next',
+        promptMessage: '🎯 Select a plan to continue:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const step = getNextActionableStep(plan.steps);
+
+      if (!step) {
+        displayNoActionableStep(plan);
+        emitJson({ plan: planSummary(plan), step: null, suggestions: [], action: 'none' });
+        return;
+      }
+
+      console.log(chalk.green(`\n➡️  Next step for "${plan.title}":`));
+      console.log(chalk.gray('─'.repeat(60)));
+      console.log(`\n${chalk.white.bold(`${step.order}. ${step.title}`)}${step.startedAt ? chalk.blue(' (in progress)') : ''}`);
+      console.log(chalk.gray(`   ${step.description}`));
+      if (step.files.length > 0) {
+        console.log(`   ${chalk.gray('📁 Files:')} ${step.files.join(', ')}`);
+      }
+      if (step.dependencies.length > 0) {
+        console.log(`   ${chalk.gray('📦 Dependencies:')} ${step.dependencies.join(', ')}`);
+      }
+
+      const suggestions = options.ai !== false
+        ? await displaySuggestions(configManager, plan, step, options)
+        : [];
+
+      const action = await applyAction(storage, plan, step, options);
+      emitJson({ plan: planSummary(plan), step: stepSummary(step, String(step.order)), suggestions, action });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+function displayNoActionableStep(plan: ProjectPlan): void {
+  const openSteps = plan.steps.filter(step => !step.completed);
+
+  if (openSteps.length === 0) {
+    console.log(chalk.green('\n🎉 All steps completed!'));
+    console.log(chalk.gray('   💡 Consider deployment or additional features.'));
+    return;
+  }
+
+  // Every open step waits on another open step - the graph needs fixing
+  console.log(chalk.yellow('\n🔒 No step can be started, every open step is blocked:'));
+  openSteps.forEach(step => {
+    const waitingOn = getOpenPrerequisites(plan.steps, step).map(prerequisite => prerequisite.id);
+    console.log(`   ${step.order}. ${step.title} ${chalk.gray(`(waiting on ${describeSteps(plan.steps, waitingOn)})`)}`);
+  });
+}
+
+async function displaySuggestions(
+  configManager: ConfigManager,
+  plan: ProjectPlan,
+  step: PlanStep,
+  options: { provider?: string; model?: string; baseUrl?: string }
+): Promise<string[]> {
+  const spinner = createSpinner('🤖 Asking AI for actionable items...').start();
+
+  try {
+    const planner = await createPlanProvider(configManager, {
+      provider: options.provider,
+      model: options.model,
+      baseUrl: options.baseUrl
+    });
+    const suggestions = await planner.suggestNextSteps(plan, step);
+    spinner.succeed('Suggestions ready!');
+
+    console.log(chalk.yellow('\n💡 Actionable items:'));
+    suggestions.forEach((suggestion, index) => {
+      console.log(`   ${index + 1}. ${suggestion}`);
+    });
+    return suggestions;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    spinner.warn('AI suggestions unavailable');
+    console.log(chalk.yellow(` ${errorMessage}`));
+    return [];
+  }
+}
+
+async function applyAction(
+  storage: FileStorage,
+  plan: ProjectPlan,
+  step: PlanStep,
+  options: { start?: boolean; complete?: boolean }
+): Promise<'start' | 'complete' | 'none'> {
+  let action: 'start' | 'complete' | 'none';
+
+  if (options.complete) {
+    action = 'complete';
+  } else if (options.start) {
+    action = 'start';
+  } else {
+    const choices = [
+      { name: '✅ Mark as completed', value: 'complete' },
+      { name: '👋 Nothing for now', value: 'none' }
+    ];
+    if (!isTimerRunning(step)) {
+      choices.unshift({ name: step.startedAt ? '⏱️  Resume the timer' : '🔄 Mark as in progress', value: 'start' });
+    }
+
+    const answers = await promptUser([
+      {
+        type: 'list',
+        name: 'action',
+        message: `What would you like to do with step ${step.order}?`,
+        choices
+      }
+    ], 'pass --start or --complete');
+    action = answers.action;
+  }
+
+  if (action === 'none') {
+    return action;
+  }
+
+  const previousStatus = plan.status;
+
+  if (action === 'start') {
+    startTimer(step);
+  } else {
+    setCompletedRecursive(step, true);
+    recordCompletion(step, true);
+  }
+
+  await storage.updatePlan(plan);
+
+  if (action === 'start') {
+    console.log(chalk.blue(`\n🔄 Step ${step.order} marked as in progress, timer started`));
+    console.log(chalk.gray(`   💡 Run "code-planner stop ${plan.id}" when you take a break`));
+  } else {
+    console.log(chalk.green(`\n✅ Step ${step.order} completed!`));
+    console.log(`   ${chalk.gray('Progress:')} ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps (${plan.progress.percentage}%)`);
+
+    if (plan.status !== previousStatus) {
+      console.log(`   ${chalk.gray('Plan status:')} ${previousStatus} → ${plan.status}`);
+    }
+
+    const following = getNextActionableStep(plan.steps);
+    if (following) {
+      console.log(chalk.gray(`\n➡️  Up next: ${following.title}`));
+      console.log(chalk.gray(`   💡 Run: code-planner next ${plan.id}`));
+    }
+  }
+
+  return action;
+}
@@ -1,98 +1,64 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
-import inquirer from 'inquirer';
 import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
 import { ProjectPlan, PlanStep } from '../types';
+import {
+  describeSteps,
+  getCompletedDependents,
+  getOpenPrerequisites,
+  getReadySteps,
+  getStepState,
+  StepState
+} from '../utils/stepGraph';
+import { findStepByPath, flattenSteps, hasSubSteps, setCompletedRecursive } from '../utils/stepTree';
+import { isTimerRunning, recordCompletion } from '../utils/timeTracking';
+import { startStep } from '../utils/stepStart';
+import { createSpinner, emitJson, planSummary, printPlainSteps, reportFailure, stepSummary } from '../utils/output';
+import { promptUser } from '../utils/prompt';
 
 export const progressCommand = new Command('progress')
   .description('Update step completion status for a plan')
   .argument('[planId]', 'ID or title of the plan to update (optional)')
-  .option('-s, --step <stepNumber>', 'Step number to update (1, 2, 3, etc.)')
+  .option('-s, --step <stepNumber>', 'Step number to update (1, 2, 3, or 3.1 for a sub-step)')
   .option('-c, --complete', 'Mark step as completed')
   .option ('-i, --incomplete', 'Mark step as incomplete')
+  .option('--start', 'Mark step as in progress and start its timer')
+  .option('-b, --branch', 'Start the step on the git branch plan/<planId>/step-<n>, creating it if needed (implies --start)')
+  .option('-f, --force', 'Complete a step even if its prerequisite steps are still open')
   .option('--show', 'Show current progress without updating')
   .action(async (planId: string | undefined, options) => {
     
     const storage = new FileStorage();
     
     try {
-      // Load all plans
-      const availablePlans = await storage.listPlans();
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'progress',
+        promptMessage: '🎯 Select a plan to update progress:'
+      });
       
-      if (availablePlans.length === 0) {
-        console.log(chalk.yellow('📝 No plans found'));
-        console.log(chalk.gray('💡 Create your first plan with: code-planner create "your task"'));
+      if (!selectedPlanId) {
         return;
       }
       
-      let selectedPlanId = planId;
-      
-      // Plan selection logic (same as show command)
-      if (!planId) {
-        console.log(chalk.blue('🎯 Select a plan to update progress:'));
-        
-        const { selectedPlan } = await inquirer.prompt([
-          {
-            type: 'list',
-            name: 'selectedPlan',
-            message: 'Choose a plan:',
-            choices: availablePlans.map(plan => ({
-              name: `${plan.title} (${plan.status})`,
-              value: plan.id,
-              short: plan.title
-            }))
-          }
-        ]);
-        
-        selectedPlanId = selectedPlan;
-      } else {
-        // Fuzzy matching logic
-        const exactMatch = availablePlans.find(plan => plan.id === planId);
-        
-        if (!exactMatch) {
-          const titleMatches = await storage.findPlansByTitle(planId);
-          
-          if (titleMatches.length === 0) {
-            console.log(chalk.red(`❌ Plan "${planId}" not found.`));
-            console.log(chalk.yellow('\n📋 Available plans:'));
-            availablePlans.forEach((plan, index) => {
-              console.log(`   ${index + 1}. ${chalk.cyan(plan.id)} - ${plan.title}`);
-            });
-            return;
-          }
-          
-          if (titleMatches.length === 1) {
-            selectedPlanId = titleMatches[0].id;
-            console.log(chalk.green(`✅ Found plan: "${titleMatches[0].title}"`));
-          } else {
-            const { selectedPlan } = await inquirer.prompt([
-              {
-                type: 'list',
-                name: 'selectedPlan',
-                message: 'Which plan did you mean?',
-                choices: titleMatches.map(plan => ({
-                  name: `${plan.title} (${plan.status})`,
-                  value: plan.id,
-                  short: plan.title
-                }))
-              }
-            ]);
-            
-            selectedPlanId = selectedPlan;
-          }
-        }
-      }
-      
       // Load the selected plan
-      const plan = await storage.loadPlan(selectedPlanId!);
+      const plan = await storage.loadPlan(selectedPlanId);
       if (!plan) {
-        console.log(chalk.red('❌ Plan not found'));
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
         return;
       }
       
       // If --show flag, just display current progress
       if (options.show) {
+        emitJson({
+          plan: planSummary(plan),
+          steps: flattenSteps(plan.steps).map(({ step, path, parent }) => ({
+            ...stepSummary(step, path),
+            state: parent ? (step.completed ? 'completed' : 'ready') : getStepState(plan.steps, step)
+          }))
+        });
+        printPlainSteps(plan.steps);
         displayProgress(plan);
         return;
       }
@@ -102,34 +68,43 @@ export const progressCommand = new Command('progress')
       if (!stepNumber) {
         console.log(chalk.blue('\n📝 Select a step to update:'));
         
-        const { selectedStep } = await inquirer.prompt([
+        const { selectedStep } = await promptUser([
           {
             type: 'list',
             name: 'selectedStep',
             message: 'Choose a step:',
-            choices: plan.steps.map(step => ({
-              name: `${step.order}. ${step.completed ? '✅ Completed' : '⭕ Not completed'} - ${step.title}`,
-              value: step.order.toString(),
-              short: `Step ${step.order}`
+            choices: flattenSteps(plan.steps).map(({ step, path, depth, parent }) => ({
+              name: `${'   '.repeat(depth)}${path}. ${formatStepState(parent ? (step.completed ? 'completed' : 'ready') : getStepState(plan.steps, step))} - ${step.title}`,
+              value: path,
+              short: `Step ${path}`
             }))
           }
-        ]);
+        ], 'pass the step with --step <n>');
         
         stepNumber = selectedStep;
       }
       
-      const stepIndex = parseInt(stepNumber) - 1;
-      const step = plan.steps[stepIndex];
+      const entry = findStepByPath(plan.steps, stepNumber);
       
-      if (!step) {
-        console.log(chalk.red(`❌ Step ${stepNumber} not found. Plan has ${plan.steps.length} steps.`));
+      if (!entry) {
+        console.error(chalk.red(`❌ Step ${stepNumber} not found. Plan has ${plan.steps.length} steps.`));
+        reportFailure('not_found', `Step ${stepNumber} not found`);
         return;
       }
       
+      const step = entry.step;
+      // Prerequisites are tracked between top-level steps
+      const topLevelStep = findStepByPath(plan.steps, entry.path.split('.')[0])!.step;
+      
       // Determine what action to take
       let newStatus: boolean;
-      if (options.complete && options.incomplete) {
-        console.log(chalk.red('❌ Cannot use --complete and --incomplete together'));
+      const start = options.start || options.branch;
+      if ([options.complete, options.incomplete, start].filter(Boolean).length > 1) {
+        console.error(chalk.red('❌ Use only one of --complete, --incomplete and --start (or --branch)'));
+        reportFailure('error', 'Use only one of --complete, --incomplete and --start (or --branch)');
+        return;
+      } else if (start) {
+        await startStep(storage, plan, entry, { branch: options.branch });
         return;
       } else if (options.complete) {
         newStatus = true;
@@ -137,38 +112,106 @@ export const progressCommand = new Command('progress')
         newStatus = false;
       } else {
         // Interactive choice
-        const { action } = await inquirer.prompt([
+        const choices = [
+          { name: '✅ Mark as completed', value: 'complete' },
+          { name: '⭕ Mark as incomplete', value: 'incomplete' },
+          { name: '🚫 Cancel', value: 'cancel' }
+        ];
+        if (!step.completed && !isTimerRunning(step)) {
+          choices.unshift({ name: '🔄 Mark as in progress', value: 'start' });
+        }
+        
+        const { action } = await promptUser([
           {
             type: 'list',
             name: 'action',
             message: `Step ${stepNumber}: "${step.title}" is currently ${step.completed ? 'completed' : 'incomplete'}. What would you like to do?`,
-            choices: [
-              { name: '✅ Mark as completed', value: 'complete' },
-              { name: '⭕ Mark as incomplete', value: 'incomplete' },
-              { name: '🚫 Cancel', value: 'cancel' }
-            ]
+            choices
           }
-        ]);
+        ], 'pass --complete, --incomplete or --start');
         
         if (action === 'cancel') {
           console.log(chalk.yellow('🚫 No changes made'));
           return;
         }
         
+        if (action === 'start') {
+          await startStep(storage, plan, entry, { branch: options.branch });
+          return;
+        }
+        
         newStatus = action === 'complete';
       }
       
+      // A parent's status is derived from its sub-steps
+      if (!newStatus && step.completed && hasSubSteps(step)) {
+        console.error(chalk.yellow(`⚠️  Step ${stepNumber} is tracked by its sub-steps - reopen one of them instead (e.g. --step ${entry.path}.1 --incomplete)`));
+        reportFailure('error', `Step ${stepNumber} is tracked by its sub-steps, reopen one of them instead`);
+        return;
+      }
+      
+      // Guard against completing steps whose prerequisites are still open
+      if (newStatus && !step.completed) {
+        const openPrerequisites = getOpenPrerequisites(plan.steps, topLevelStep);
+        
+        if (openPrerequisites.length > 0) {
+          console.log(chalk.yellow(`\n🔒 Step ${stepNumber} is waiting on:`));
+          openPrerequisites.forEach(prerequisite => {
+            console.log(`   ${prerequisite.order}. ${prerequisite.title}`);
+          });
+          
+          if (!options.force) {
+            if (options.complete) {
+              console.error(chalk.red('❌ Complete the steps above first, or re-run with --force'));
+              reportFailure('error', `Step ${stepNumber} is blocked by open prerequisite steps, use --force to complete it anyway`, {
+                waitingOn: openPrerequisites.map(prerequisite => prerequisite.order)
+              });
+              return;
+            }
+            
+            const { proceed } = await promptUser([
+              {
+                type: 'confirm',
+                name: 'proceed',
+                message: 'Mark it as completed anyway?',
+                default: false
+              }
+            ], 'pass --force to complete a blocked step');
+            
+            if (!proceed) {
+              console.log(chalk.yellow('🚫 No changes made'));
+              return;
+            }
+          }
+        }
+      }
+      
+      if (!newStatus && step.completed) {
+        const dependents = getCompletedDependents(plan.steps, topLevelStep);
+        if (dependents.length > 0) {
+          console.log(chalk.yellow(`\n⚠️  Already completed steps depend on this one: ${describeSteps(plan.steps, dependents.map(dependent => dependent.id))}`));
+        }
+      }
+      
       // Update the step
-      const spinner = ora('🔄 Updating step status...').start();
+      const spinner = createSpinner('🔄 Updating step status...').start();
       
       try {
         const oldStatus = step.completed;
-        step.completed = newStatus;
+        const oldPlanStatus = plan.status;
+        setCompletedRecursive(step, newStatus);
+        recordCompletion(step, newStatus);
         
         // Save updated plan
         await storage.updatePlan(plan);
         
         spinner.succeed('✅ Step updated successfully!');
+        emitJson({
+          plan: planSummary(plan),
+          step: stepSummary(step, entry.path),
+          changed: oldStatus !== newStatus,
+          previousStatus: oldPlanStatus
+        });
         
         // Show the change
         const statusIcon = newStatus ? chalk.green('✅') : chalk.red('⭕');
@@ -188,24 +231,28 @@ export const progressCommand = new Command('progress')
         console.log(`   ${chalk.gray('Completed:')} ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps`);
         
         // Show next steps
-        if (newStatus && stepIndex < plan.steps.length - 1) {
-          const nextStep = plan.steps[stepIndex + 1];
-          if (!nextStep.completed) {
-            console.log(chalk.gray(`\n➡️  Next step: ${nextStep.title}`));
-            console.log(chalk.gray(`   💡 Run: code-planner progress ${selectedPlanId} --step ${nextStep.order} --complete`));
-          }
+        const nextStep = getReadySteps(plan.steps)[0];
+        if (newStatus && nextStep) {
+          console.log(chalk.gray(`\n➡️  Next step: ${nextStep.title}`));
+          console.log(chalk.gray(`   💡 Run: code-planner progress ${selectedPlanId} --step ${nextStep.order} --complete`));
         }
         
         // Check if plan is complete
         if (plan.progress.completedSteps === plan.progress.totalSteps) {
           console.log(chalk.green('\n🎉 Congratulations! All steps completed!'));
-          console.log(chalk.gray('   💡 Consider updating plan status to "completed"'));
         }
         
+        if (plan.status !== oldPlanStatus) {
+          console.log(`${chalk.gray('📊 Plan status:')} ${getStatusBadge(oldPlanStatus)} → ${getStatusBadge(plan.status)}`);
+        }
+        
+        console.log(chalk.gray(`\n↩️  Wrong step? Run: code-planner undo ${selectedPlanId}`));
+        
       } catch (error: unknown) {
         spinner.fail('❌ Failed to update step');
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
         console.error(chalk.red('❌ Error:'), errorMessage);
+        reportFailure('error', errorMessage);
       }
       
     } catch (error: unknown) {
@@ -227,15 +274,34 @@ function displayProgress(plan: ProjectPlan): void {
   console.log(`${chalk.gray('✅ Completed:')} ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps\n`);
   
   plan.steps.forEach((step, index) => {
-    const statusIcon = step.completed ? chalk.green('✅') : chalk.red('⭕');
+    const state = getStepState(plan.steps, step);
+    const statusIcon = state === 'completed' ? chalk.green('✅')
+      : state === 'blocked' ? chalk.red('🔒')
+      : state === 'in-progress' ? chalk.blue('🔄')
+      : chalk.red('⭕');
     const stepTitle = step.completed ? chalk.gray(step.title) : chalk.white(step.title);
     console.log(`   ${index + 1}. ${statusIcon} ${stepTitle}`);
+    
+    flattenSteps(step.subSteps || [], String(step.order)).forEach(({ step: subStep, path, depth }) => {
+      const subIcon = subStep.completed ? chalk.green('✅') : chalk.red('⭕');
+      const subTitle = subStep.completed ? chalk.gray(subStep.title) : chalk.white(subStep.title);
+      console.log(`   ${'   '.repeat(depth)}${path}. ${subIcon} ${subTitle}`);
+    });
   });
   
   console.log(chalk.gray('\n─'.repeat(60)));
   console.log(chalk.gray('💡 Use --step <number> --complete to mark steps as done'));
 }
 
+function formatStepState(state: StepState): string {
+  switch (state) {
+    case 'completed': return '✅ Completed';
+    case 'in-progress': return '🔄 In progress';
+    case 'ready': return '⭕ Not completed';
+    case 'blocked': return '🔒 Blocked';
+  }
+}
+
 // Helper functions (same as show command)
 function getStatusBadge(status: string): string {
   switch (status) {
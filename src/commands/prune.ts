@@ -0,0 +1,69 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { ConfigManager } from '../config/ConfigManager';
+import { activePlans, archivePlans, completedAt, findPlansToPrune } from '../utils/planArchive';
+import { createSpinner, emitJson, planSummary } from '../utils/output';
+
+export const pruneCommand = new Command('prune')
+  .description('Archive the oldest completed plans when there are more than maxPlans')
+  .option('--max <number>', 'Number of active plans to keep (defaults to the maxPlans setting)', (value: string) => parseInt(value, 10))
+  .option('--dry-run', 'Only show which plans would be archived')
+  .action(async (options) => {
+
+    const storage = new FileStorage();
+    const configManager = new ConfigManager();
+
+    try {
+      const config = await configManager.loadConfig();
+      const maxPlans: number = options.max ?? config.maxPlans;
+
+      if (!Number.isInteger(maxPlans) || maxPlans < 0) {
+        console.error(chalk.red(`❌ Invalid maximum "${options.max}". Use a whole number of 0 or more.`));
+        process.exit(1);
+      }
+
+      const plans = await storage.listPlans();
+      const active = activePlans(plans);
+      const candidates = findPlansToPrune(plans, maxPlans);
+
+      console.log(chalk.blue(`📚 ${active.length} active plan(s), limit ${maxPlans}`));
+
+      const document = { maxPlans, active: active.length, dryRun: !!options.dryRun, archived: candidates.map(planSummary) };
+
+      if (candidates.length === 0) {
+        emitJson(document);
+        console.log(chalk.green('✅ Nothing to prune'));
+        if (active.length > maxPlans) {
+          console.log(chalk.gray('   Only completed plans are archived; finish or archive the rest manually.'));
+        }
+        return;
+      }
+
+      console.log(chalk.yellow(`\n🗄️  ${options.dryRun ? 'Would archive' : 'Archiving'}:`));
+      candidates.forEach(plan => {
+        console.log(`   ${chalk.cyan(plan.id)} - ${plan.title} ${chalk.gray(`(completed ${completedAt(plan).toLocaleDateString()})`)}`);
+      });
+
+      if (options.dryRun) {
+        emitJson(document);
+        return;
+      }
+
+      const spinner = createSpinner('Archiving plans...').start();
+      await archivePlans(storage, candidates);
+      spinner.succeed(`Archived ${candidates.length} plan(s)`);
+      emitJson(document);
+
+      const remaining = active.length - candidates.length;
+      if (remaining > maxPlans) {
+        console.log(chalk.gray(`   ${remaining} plans are still active; only completed plans are archived.`));
+      }
+      console.log(chalk.gray('💡 Use "code-planner list --archived" to see them'));
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error pruning plans:'), errorMessage);
+      process.exit(1);
+    }
+  });
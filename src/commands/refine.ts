@@ -0,0 +1,105 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { ConfigManager } from '../config/ConfigManager';
+import { createPlanProvider, PLAN_PROVIDERS } from '../ai/providerFactory';
+import { selectPlanId } from '../utils/planSelector';
+import { diffPlans, hasChanges, printPlanDiff, serializeDiff } from '../utils/planDiff';
+import { ProjectPlan } from '../types';
+import { createSpinner, emitJson, reportFailure } from '../utils/output';
+import { parseNonNegativeInt } from '../utils/optionParsers';
+import { promptUser } from '../utils/prompt';
+
+export const refineCommand = new Command('refine')
+  .description('Revise a plan with AI from natural-language feedback')
+  .argument('<planId>', 'ID or title of the plan to refine')
+  .argument('<feedback>', 'What to change, e.g. "split step 3, we use Postgres not Mongo"')
+  .option('-y, --yes', 'Save the revised plan without asking')
+  .option('-p, --provider <provider>', `AI provider to use (${PLAN_PROVIDERS.join('/')})`)
+  .option('-m, --model <model>', 'Model name for the selected provider')
+  .option('--base-url <url>', 'Override the provider endpoint (e.g. a local server)')
+  .option('--repair-attempts <number>', 'How often to ask the AI to fix an invalid plan', parseNonNegativeInt)
+  .action(async (planId: string, feedback: string, options) => {
+
+    const storage = new FileStorage();
+    const configManager = new ConfigManager();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'refine',
+        promptMessage: '🛠️  Select a plan to refine:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const spinner = createSpinner('🤖 Revising plan...').start();
+
+      let revised: ProjectPlan;
+      try {
+        const planner = await createPlanProvider(configManager, {
+          provider: options.provider,
+          model: options.model,
+          baseUrl: options.baseUrl
+        });
+        const config = await configManager.loadConfig();
+
+        spinner.text = ` Revising plan with ${planner.name} (${planner.model})...`;
+        revised = await planner.refinePlan(plan, feedback, {
+          repairAttempts: options.repairAttempts ?? config.maxRepairAttempts
+        });
+        spinner.succeed('Revision ready!');
+      } catch (error: unknown) {
+        spinner.fail('AI could not revise the plan');
+        throw error;
+      }
+
+      const diff = diffPlans(plan, revised);
+
+      console.log(chalk.blue(`\n📝 Proposed changes to "${plan.title}":`));
+      printPlanDiff(diff);
+
+      if (!hasChanges(diff)) {
+        console.log(chalk.yellow('\n🚫 Nothing to save'));
+        emitJson({ plan, saved: false, diff: serializeDiff(diff) });
+        return;
+      }
+
+      if (!options.yes) {
+        const { confirm } = await promptUser([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: 'Save these changes?',
+            default: true
+          }
+        ], 'pass --yes to save the changes');
+
+        if (!confirm) {
+          console.log(chalk.yellow('🚫 No changes made'));
+          return;
+        }
+      }
+
+      const saveSpinner = createSpinner('💾 Saving plan...').start();
+      await storage.updatePlan(revised);
+      saveSpinner.succeed('Plan updated!');
+
+      console.log(chalk.gray(`\n   ${revised.progress.completedSteps}/${revised.progress.totalSteps} steps completed (${revised.progress.percentage}%)`));
+      console.log(chalk.gray(`   💡 Use "code-planner show ${revised.id} --steps" to review`));
+      emitJson({ plan: revised, saved: true, diff: serializeDiff(diff) });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error refining plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
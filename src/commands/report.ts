@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { ProjectPlan } from '../types';
+import { PlanTimeReport, StepTime, buildTimeReport, formatHours, formatVariance } from '../utils/timeTracking';
+import { emitJson, planSummary, reportFailure, stepSummary } from '../utils/output';
+
+const TITLE_WIDTH = 36;
+
+export const reportCommand = new Command('report')
+  .description('Compare estimated and tracked hours per step and per plan')
+  .argument('[planId]', 'ID or title of the plan (optional)')
+  .option('-a, --all', 'Summarize estimate accuracy across all plans')
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      if (options.all) {
+        printAccuracySummary(await storage.listPlans());
+        return;
+      }
+
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'report',
+        promptMessage: '⏱️  Select a plan to report on:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const report = buildTimeReport(plan);
+      printPlanReport(plan, report);
+      emitJson({
+        plan: planSummary(plan),
+        estimatedHours: report.estimated,
+        trackedHours: report.actual,
+        measured: report.measured,
+        steps: report.steps.map(entry => ({
+          ...stepSummary(entry.step, entry.path),
+          estimatedHours: entry.estimated,
+          trackedHours: entry.actual,
+          running: entry.running
+        }))
+      });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error building report:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+function printPlanReport(plan: ProjectPlan, report: PlanTimeReport): void {
+  console.log(`\n${chalk.white.bold('📌 ' + plan.title)}`);
+  console.log(chalk.gray(`   Overall estimate from the planner: ${plan.overview.estimatedTime}`));
+
+  console.log(chalk.blue('\n⏱️  Estimated vs tracked:'));
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log(chalk.gray(`   ${'Step'.padEnd(TITLE_WIDTH + 6)} ${'Estimate'.padStart(8)} ${'Actual'.padStart(8)} ${'Diff'.padStart(7)}`));
+
+  report.steps.forEach(entry => console.log(formatStepRow(entry)));
+
+  // No total variance: open steps would make the plan look ahead of its estimate
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log(
+    `   ${chalk.white.bold('Total'.padEnd(TITLE_WIDTH + 6))} ${formatHours(report.estimated).padStart(8)} ${formatHours(report.actual).padStart(8)}`
+  );
+
+  if (report.measured.count > 0) {
+    const { count, estimated, actual } = report.measured;
+    console.log(chalk.blue(`\n🎯 Completed steps with estimate and tracked time: ${count}`));
+    console.log(`   Estimated ${formatHours(estimated)}, took ${formatHours(actual)} (${formatVariance(estimated, actual)})`);
+  } else {
+    console.log(chalk.gray('\n💡 Accuracy is measured on completed steps with tracked time - use "code-planner start" and "stop" while working'));
+  }
+}
+
+function formatStepRow(entry: StepTime): string {
+  const indent = '  '.repeat(entry.depth);
+  const icon = entry.running ? '⏱️ ' : entry.step.completed ? '✅' : '⭕';
+  const label = truncate(`${indent}${entry.path}. ${entry.step.title}`, TITLE_WIDTH);
+  const estimate = entry.estimated !== undefined ? formatHours(entry.estimated) : '-';
+  const actual = entry.actual > 0 ? formatHours(entry.actual) : '-';
+  const variance = entry.estimated !== undefined && entry.actual > 0 && entry.step.completed
+    ? formatVariance(entry.estimated, entry.actual)
+    : '';
+  const varianceText = variance.startsWith('+') ? chalk.red(variance.padStart(7)) : chalk.green(variance.padStart(7));
+
+  const row = `   ${icon} ${label.padEnd(TITLE_WIDTH + 3)} ${estimate.padStart(8)} ${actual.padStart(8)} ${varianceText}`;
+  return entry.depth > 0 ? chalk.gray(row) : row;
+}
+
+// How far off estimates were, over every plan with measured steps
+function printAccuracySummary(plans: ProjectPlan[]): void {
+  const reports = plans
+    .map(plan => ({ plan, report: buildTimeReport(plan) }))
+    .filter(({ report }) => report.measured.count > 0);
+
+  if (reports.length === 0) {
+    console.log(chalk.yellow('📭 No completed steps with tracked time yet'));
+    console.log(chalk.gray('💡 Use "code-planner start <planId>" and "code-planner stop <planId>" while working on steps'));
+    emitJson({ plans: [], measured: { count: 0, estimated: 0, actual: 0 } });
+    return;
+  }
+
+  console.log(chalk.blue('\n🎯 Estimate accuracy by plan (completed steps with tracked time):'));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  reports.forEach(({ plan, report }) => {
+    const { count, estimated, actual } = report.measured;
+    console.log(
+      `   ${truncate(plan.title, TITLE_WIDTH).padEnd(TITLE_WIDTH)} ${String(count).padStart(3)} steps ${formatHours(estimated).padStart(7)} → ${formatHours(actual).padStart(7)} ${formatVariance(estimated, actual).padStart(7)}`
+    );
+  });
+
+  const steps = reports.reduce((sum, { report }) => sum + report.measured.count, 0);
+  const estimated = reports.reduce((sum, { report }) => sum + report.measured.estimated, 0);
+  const actual = reports.reduce((sum, { report }) => sum + report.measured.actual, 0);
+
+  console.log(chalk.gray('─'.repeat(70)));
+  console.log(`   ${chalk.white.bold(`${steps} steps in ${reports.length} plan(s)`)}: estimated ${formatHours(estimated)}, took ${formatHours(actual)} (${formatVariance(estimated, actual)})`);
+  if (estimated > 0) {
+    console.log(chalk.gray(`   Multiply AI estimates by about ${(actual / estimated).toFixed(2)} for this codebase`));
+  }
+  emitJson({
+    plans: reports.map(({ plan, report }) => ({ plan: planSummary(plan), measured: report.measured })),
+    measured: { count: steps, estimated, actual }
+  });
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
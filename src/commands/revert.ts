@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { confirmAndRestore } from '../utils/revisionRestore';
+import { reportFailure } from '../utils/output';
+
+export const revertCommand = new Command('revert')
+  .description('Restore a plan to an earlier revision')
+  .argument('<planId>', 'ID or title of the plan')
+  .argument('<revision>', 'Revision number to restore (see the history command)')
+  .option('-y, --yes', 'Restore without asking')
+  .action(async (planId: string, revisionArg: string, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const revision = parseInt(revisionArg, 10);
+      if (Number.isNaN(revision)) {
+        console.error(chalk.red(`❌ "${revisionArg}" is not a revision number`));
+        process.exit(1);
+      }
+
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'revert',
+        promptMessage: '⏪ Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const snapshot = await storage.loadRevision(plan.id, revision);
+      if (!snapshot) {
+        console.error(chalk.red(`❌ Revision ${revision} not found`));
+        console.log(chalk.gray(`💡 Use "code-planner history ${plan.id}" to list revisions`));
+        reportFailure('not_found', `Revision ${revision} not found`);
+        return;
+      }
+
+      await confirmAndRestore(storage, plan, snapshot, options);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error reverting plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
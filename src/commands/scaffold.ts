@@ -0,0 +1,97 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import { FileStorage } from '../storage/FileStorage';
+import { getProjectDir } from '../storage/storageLocation';
+import { ConfigManager } from '../config/ConfigManager';
+import { selectPlanId } from '../utils/planSelector';
+import { ScaffoldResult, planScaffold, writeScaffold } from '../utils/scaffold';
+import { emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const scaffoldCommand = new Command('scaffold')
+  .description('Create the directories and files of a plan as stubs (existing files are kept)')
+  .argument('[planId]', 'ID or title of the plan (optional)')
+  .option('-d, --dir <path>', 'Target directory (defaults to the configured output directory)')
+  .option('--package-json', 'Also write a package.json with the planned npm dependencies')
+  .option('--dry-run', 'Only list what would be created')
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+    const configManager = new ConfigManager();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'scaffold',
+        promptMessage: '🏗️  Select a plan to scaffold:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const config = await configManager.loadConfig();
+      const targetDir = path.resolve(options.dir || config.defaultOutputDir || getProjectDir(storage.getLocation()));
+      const entries = planScaffold(plan, { packageJson: options.packageJson });
+
+      if (entries.length === 0) {
+        console.log(chalk.yellow(`📭 "${plan.title}" lists no files or directories`));
+        emitJson({ plan: planSummary(plan), targetDir, dryRun: !!options.dryRun, entries: [] });
+        return;
+      }
+
+      const results = await writeScaffold(entries, targetDir, options.dryRun);
+
+      console.log(chalk.blue(`\n🏗️  ${options.dryRun ? 'Would scaffold' : 'Scaffolding'} "${plan.title}" in ${targetDir}`));
+      console.log(chalk.gray('─'.repeat(60)));
+      results.forEach(result => console.log(formatResult(result, options.dryRun)));
+
+      const created = results.filter(result => result.status === 'created').length;
+      const kept = results.filter(result => result.status === 'exists').length;
+      const outside = results.filter(result => result.status === 'outside').length;
+
+      console.log(chalk.gray('─'.repeat(60)));
+      console.log(`${options.dryRun ? 'Would create' : 'Created'} ${created}, kept ${kept} existing${outside > 0 ? `, skipped ${outside} outside the target` : ''}`);
+      if (options.dryRun) {
+        console.log(chalk.gray('💡 Dry run, nothing was written. Run without --dry-run to create the files.'));
+      }
+
+      emitJson({
+        plan: planSummary(plan),
+        targetDir,
+        dryRun: !!options.dryRun,
+        entries: results.map(result => ({
+          type: result.type,
+          path: result.path,
+          status: result.status,
+          step: result.owner ? result.owner.path : null
+        }))
+      });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error scaffolding plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+function formatResult(result: ScaffoldResult, dryRun: boolean): string {
+  const icon = result.type === 'directory' ? '📁' : '📄';
+  const name = result.type === 'directory' ? `${result.path}/` : result.path;
+  const owner = result.owner ? chalk.gray(` (step ${result.owner.path})`) : '';
+
+  switch (result.status) {
+    case 'created':
+      return `   ${icon} ${chalk.green(name)}${owner}${dryRun ? chalk.gray(' new') : ''}`;
+    case 'exists':
+      return `   ${icon} ${chalk.gray(`${name} exists, kept`)}`;
+    case 'outside':
+      return `   ${icon} ${chalk.yellow(`${name} skipped, outside the target directory`)}`;
+  }
+}
@@ -1,9 +1,19 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
-import inquirer from 'inquirer';
 import { FileStorage } from '../storage/FileStorage';
-import { ProjectPlan } from '../types';
+import { selectPlanId } from '../utils/planSelector';
+import { PlanStep, ProjectPlan } from '../types';
+import {
+  StepState,
+  describeSteps,
+  getOpenPrerequisites,
+  getReadySteps,
+  getStepState,
+  validateStepGraph
+} from '../utils/stepGraph';
+import { flattenSteps } from '../utils/stepTree';
+import { estimatedHours, formatHours, isTimerRunning, trackedHours } from '../utils/timeTracking';
+import { createSpinner, emitJson, printPlainPlan, printPlainSteps, reportFailure } from '../utils/output';
 
 export const showCommand = new Command('show')
   .description('Show detailed information about a specific plan')
@@ -16,93 +26,33 @@ export const showCommand = new Command('show')
     const storage = new FileStorage();
     
     try {
-      // Load all plans
-      const availablePlans = await storage.listPlans();
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'show',
+        promptMessage: '🔍 Select a plan to view:'
+      });
       
-      if (availablePlans.length === 0) {
-        console.log(chalk.yellow('📝 No plans found'));
-        console.log(chalk.gray('💡 Create your first plan with: code-planner create "your task"'));
+      if (!selectedPlanId) {
         return;
       }
       
-      let selectedPlanId = planId;
-      
-      // If no planId provided, show interactive selection
-      if (!planId) {
-        console.log(chalk.blue('🔍 Select a plan to view:'));
-        
-        const { selectedPlan } = await inquirer.prompt([
-          {
-            type: 'list',
-            name: 'selectedPlan',
-            message: 'Choose a plan:',
-            choices: availablePlans.map(plan => ({
-              name: `${plan.title} (${plan.status})`,
-              value: plan.id,
-              short: plan.title
-            }))
-          }
-        ]);
-        
-        selectedPlanId = selectedPlan;
-      } 
-      // If planId provided but doesn't exist, try fuzzy matching
-      else {
-        const exactMatch = availablePlans.find(plan => plan.id === planId);
-        
-        if (!exactMatch) {
-          // Try to find by partial title match
-          const titleMatches = await storage.findPlansByTitle(planId);
-          
-          if (titleMatches.length === 0) {
-            console.log(chalk.red(`❌ Plan "${planId}" not found.`));
-            console.log(chalk.yellow('\n📋 Available plans:'));
-            availablePlans.forEach((plan, index) => {
-              console.log(`   ${index + 1}. ${chalk.cyan(plan.id)} - ${plan.title}`);
-            });
-            console.log(chalk.gray('\n💡 Try: code-planner show <plan-id>'));
-            console.log(chalk.gray('🔄 Or run: code-planner show (for interactive selection)'));
-            return;
-          }
-          
-          if (titleMatches.length === 1) {
-            selectedPlanId = titleMatches[0].id;
-            console.log(chalk.green(`✅ Found plan: "${titleMatches[0].title}"`));
-          } else {
-            console.log(chalk.yellow(`🔍 Multiple plans match "${planId}":`));
-            
-            const { selectedPlan } = await inquirer.prompt([
-              {
-                type: 'list',
-                name: 'selectedPlan',
-                message: 'Which plan did you mean?',
-                choices: titleMatches.map(plan => ({
-                  name: `${plan.title} (${plan.status})`,
-                  value: plan.id,
-                  short: plan.title
-                }))
-              }
-            ]);
-            
-            selectedPlanId = selectedPlan;
-          }
-        }
-      }
-      
       console.log(chalk.blue(`📖 Loading plan: ${selectedPlanId}...`));
       
-      const spinner = ora('Fetching plan details...').start();
+      const spinner = createSpinner('Fetching plan details...').start();
       
       // Load the specific plan
-      const plan = await storage.loadPlan(selectedPlanId!);
+      const plan = await storage.loadPlan(selectedPlanId);
       
       if (!plan) {
         spinner.fail('Plan not found');
-        console.log(chalk.red('❌ Plan could not be loaded'));
+        console.error(chalk.red('❌ Plan could not be loaded'));
+        reportFailure('not_found', `Plan "${selectedPlanId}" could not be loaded`);
         return;
       }
       
       spinner.succeed('Plan loaded successfully!');
+      emitJson({ plan });
+      printPlainPlan(plan);
+      printPlainSteps(plan.steps);
       
       // Display plan details
       displayPlanDetails(plan, options);
@@ -123,6 +73,9 @@ function displayPlanDetails(plan: ProjectPlan, options: any): void {
   console.log(chalk.gray(`💭 ${plan.description}`));
   console.log(`\n${chalk.gray('🆔 ID:')} ${chalk.cyan(plan.id)}`);
   console.log(`${chalk.gray('📊 Status:')} ${getStatusBadge(plan.status)}`);
+  if (plan.archivedAt) {
+    console.log(`${chalk.gray('🗄️  Archived:')} ${plan.archivedAt.toLocaleDateString()}`);
+  }
   console.log(`${chalk.gray('📅 Created:')} ${plan.createdAt.toLocaleDateString()}`);
   console.log(`${chalk.gray('🔄 Updated:')} ${plan.updatedAt.toLocaleDateString()}`);
   
@@ -141,18 +94,66 @@ function displayPlanDetails(plan: ProjectPlan, options: any): void {
   // Steps section (always show, but detailed if --steps flag)
   console.log(chalk.yellow('\n📝 Steps:'));
   plan.steps.forEach((step, index) => {
-    const statusIcon = step.completed ? chalk.green('✅') : chalk.red('⭕');
+    const state = getStepState(plan.steps, step);
     const stepTitle = step.completed ? chalk.gray(step.title) : chalk.white(step.title);
+    let stateText = '';
+    
+    if (state === 'blocked') {
+      const waitingOn = getOpenPrerequisites(plan.steps, step).map(prerequisite => prerequisite.order);
+      stateText = chalk.gray(` (blocked by step ${waitingOn.join(', ')})`);
+    } else if (state === 'ready') {
+      stateText = chalk.green(' (ready)');
+    } else if (state === 'in-progress') {
+      stateText = chalk.blue(' (in progress)');
+    }
     
-    console.log(`   ${index + 1}. ${statusIcon} ${stepTitle}`);
+    console.log(`   ${index + 1}. ${getStepStateIcon(state)} ${stepTitle}${stateText}`);
     
     if (options.steps) {
       console.log(`      ${chalk.gray('📄 ' + step.description)}`);
       console.log(`      ${chalk.gray('📁 Files:')} ${step.files.join(', ')}`);
+      if (step.dependsOn && step.dependsOn.length > 0) {
+        console.log(`      ${chalk.gray('🔗 Depends on:')} ${describeSteps(plan.steps, step.dependsOn)}`);
+      }
+      const estimate = estimatedHours(step);
+      const tracked = trackedHours(step);
+      if (estimate !== undefined || tracked > 0) {
+        const running = isTimerRunning(step) ? chalk.blue(' (timer running)') : '';
+        console.log(`      ${chalk.gray('⏱️  Time:')} ${estimate !== undefined ? formatHours(estimate) : '-'} estimated, ${formatHours(tracked)} tracked${running}`);
+      }
+      printCommits(step, '      ');
       console.log(`      ${chalk.gray('📦 Dependencies:')} ${step.dependencies.join(', ')}\n`);
     }
+    
+    // Sub-steps, indented below their parent
+    flattenSteps(step.subSteps || [], String(step.order)).forEach(({ step: subStep, path, depth }) => {
+      const indent = '   '.repeat(depth + 1);
+      const subIcon = subStep.completed ? chalk.green('✅') : chalk.red('⭕');
+      const subTitle = subStep.completed ? chalk.gray(subStep.title) : chalk.white(subStep.title);
+      
+      console.log(`${indent}${path}. ${subIcon} ${subTitle}`);
+      
+      if (options.steps) {
+        console.log(`${indent}   ${chalk.gray('📄 ' + subStep.description)}`);
+        if (subStep.files.length > 0) {
+          console.log(`${indent}   ${chalk.gray('📁 Files:')} ${subStep.files.join(', ')}`);
+        }
+        printCommits(subStep, `${indent}   `);
+      }
+    });
   });
   
+  const readySteps = getReadySteps(plan.steps);
+  if (readySteps.length > 0) {
+    console.log(chalk.gray(`\n   ▶️  Ready to start: ${readySteps.map(step => step.order).join(', ')}`));
+  }
+  
+  const graphIssues = validateStepGraph(plan.steps);
+  if (graphIssues.length > 0) {
+    console.log(chalk.red('\n⚠️  Step dependency problems:'));
+    graphIssues.forEach(issue => console.log(chalk.red(`   - ${issue.message}`)));
+  }
+  
   // File structure (if --files flag)
   if (options.files) {
     console.log(chalk.yellow('\n📁 File Structure:'));
@@ -186,12 +187,23 @@ function displayPlanDetails(plan: ProjectPlan, options: any): void {
   // Footer with helpful commands
   console.log(chalk.gray('\n─'.repeat(70)));
   console.log(chalk.gray('💡 Next steps:'));
-  console.log(chalk.gray(`   ▶️  code-planner progress ${plan.id} --step 1 --complete`));
+  const nextStep = readySteps[0] || plan.steps[0];
+  console.log(chalk.gray(`   ▶️  code-planner progress ${plan.id} --step ${nextStep ? nextStep.order : 1} --complete`));
   console.log(chalk.gray(`   📖 code-planner show ${plan.id} --steps --files --dependencies`));
   console.log(chalk.gray(`   📋 code-planner list --status ${plan.status}`));
 }
 
 // Helper functions
+function printCommits(step: PlanStep, indent: string): void {
+  if (!step.commits || step.commits.length === 0) {
+    return;
+  }
+  console.log(`${indent}${chalk.gray('🔀 Commits:')}`);
+  step.commits.forEach(commit => {
+    console.log(`${indent}   ${chalk.cyan(commit.sha.slice(0, 7))} ${commit.subject} ${chalk.gray(commit.committedAt.toLocaleDateString())}`);
+  });
+}
+
 function getStatusBadge(status: string): string {
   switch (status) {
     case 'completed':
@@ -207,6 +219,15 @@ function getStatusBadge(status: string): string {
   }
 }
 
+function getStepStateIcon(state: StepState): string {
+  switch (state) {
+    case 'completed': return chalk.green('✅');
+    case 'in-progress': return chalk.blue('🔄');
+    case 'ready': return chalk.blue('▶️ ');
+    case 'blocked': return chalk.red('🔒');
+  }
+}
+
 function getComplexityBadge(complexity: string): string {
   switch (complexity) {
     case 'low':
@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { getNextActionableStep } from '../utils/stepGraph';
+import { FlatStep, findStepByPath } from '../utils/stepTree';
+import { startStep } from '../utils/stepStart';
+import { reportFailure } from '../utils/output';
+
+export const startCommand = new Command('start')
+  .description('Start the timer on a step (one timer runs per plan)')
+  .argument('[planId]', 'ID or title of the plan (optional)')
+  .option('-s, --step <stepNumber>', 'Step to work on (1, 2, or 3.1); defaults to the next actionable step')
+  .option('-b, --branch', 'Also switch to the git branch plan/<planId>/step-<n>, creating it if needed')
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'start',
+        promptMessage: '⏱️  Select a plan to work on:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      let entry: FlatStep | undefined;
+      if (options.step) {
+        entry = findStepByPath(plan.steps, options.step);
+        if (!entry) {
+          console.error(chalk.red(`❌ Step ${options.step} not found. Plan has ${plan.steps.length} steps.`));
+          reportFailure('not_found', `Step ${options.step} not found`);
+          return;
+        }
+      } else {
+        const next = getNextActionableStep(plan.steps);
+        entry = next && findStepByPath(plan.steps, String(next.order));
+        if (!entry) {
+          console.log(chalk.yellow('🚫 No step is ready to start; pick one with --step'));
+          return;
+        }
+      }
+
+      await startStep(storage, plan, entry, options);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error starting timer:'), errorMessage);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,147 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { ProjectPlan } from '../types';
+import { completedAt } from '../utils/planArchive';
+import { BurndownPoint, burndownSeries, computePlanStatistics, formatDay, renderBurndown } from '../utils/planStats';
+import { buildTimeReport, formatHours } from '../utils/timeTracking';
+import { createSpinner, emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const statsCommand = new Command('stats')
+  .description('Show plan statistics and a burndown chart, for one plan or all of them')
+  .argument('[planId]', 'ID or title of a plan (omit for all plans)')
+  .option('-d, --days <number>', 'Only chart the last N days', (value: string) => parseInt(value, 10))
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      if (options.days !== undefined && (Number.isNaN(options.days) || options.days < 1)) {
+        console.error(chalk.red('❌ --days must be a positive number'));
+        process.exit(1);
+      }
+
+      if (planId) {
+        const selectedPlanId = await selectPlanId(storage, planId, {
+          command: 'stats',
+          promptMessage: '📊 Select a plan:'
+        });
+
+        if (!selectedPlanId) {
+          return;
+        }
+
+        const plan = await storage.loadPlan(selectedPlanId);
+        if (!plan) {
+          console.error(chalk.red('❌ Plan not found'));
+          reportFailure('not_found', 'Plan not found');
+          return;
+        }
+
+        const burndown = burndownSeries([plan]);
+        printPlanStats(plan);
+        printBurndown(burndown, options.days);
+        emitJson({ plan: planSummary(plan), time: buildTimeReport(plan).measured, burndown: chartedDays(burndown, options.days) });
+        return;
+      }
+
+      const spinner = createSpinner('📊 Collecting statistics...').start();
+      const plans = await storage.listPlans();
+      const storageStats = await storage.getStorageStats();
+      spinner.stop();
+
+      const location = storage.getLocation();
+      console.log(chalk.blue('\n📊 Plan statistics'));
+      console.log(chalk.gray('─'.repeat(60)));
+      console.log(`${chalk.gray('📦 Storage:')} ${location.scope} ${location.backend} store, ${storageStats.storageSize}`);
+
+      if (plans.length === 0) {
+        console.log(chalk.yellow('\n📭 No plans yet'));
+        emitJson({ storage: { scope: location.scope, backend: location.backend, ...storageStats }, statistics: computePlanStatistics(plans), burndown: [] });
+        return;
+      }
+
+      const burndown = burndownSeries(plans);
+      printOverview(plans);
+      printBurndown(burndown, options.days);
+      emitJson({ storage: { scope: location.scope, backend: location.backend, ...storageStats }, statistics: computePlanStatistics(plans), burndown: chartedDays(burndown, options.days) });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error collecting statistics:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+function printOverview(plans: ProjectPlan[]): void {
+  const stats = computePlanStatistics(plans);
+
+  console.log(`${chalk.gray('📋 Plans:')} ${stats.total} (${stats.archived} archived)`);
+
+  console.log(chalk.yellow('\n📌 By status:'));
+  Object.entries(stats.byStatus).forEach(([status, count]) => {
+    console.log(`   ${status.padEnd(12)} ${createBar(count, stats.total)} ${count}`);
+  });
+
+  console.log(chalk.yellow('\n🎯 By complexity:'));
+  Object.entries(stats.byComplexity).forEach(([complexity, count]) => {
+    console.log(`   ${complexity.padEnd(12)} ${createBar(count, stats.total)} ${count}`);
+  });
+
+  console.log(chalk.yellow('\n✅ Completion:'));
+  console.log(`   ${'Plans'.padEnd(12)} ${formatPercentage(stats.planCompletionRate)} (${stats.byStatus.completed}/${stats.total})`);
+  console.log(`   ${'Steps'.padEnd(12)} ${formatPercentage(stats.stepCompletionRate)} (${stats.steps.completed}/${stats.steps.total})`);
+  console.log(`   ${'Avg. time'.padEnd(12)} ${stats.averageDaysToComplete !== undefined ? formatDays(stats.averageDaysToComplete) + ' from creation to completion' : chalk.gray('no completed plans yet')}`);
+}
+
+function printPlanStats(plan: ProjectPlan): void {
+  const ageDays = ((plan.status === 'completed' ? completedAt(plan) : new Date()).getTime() - plan.createdAt.getTime()) / (24 * 60 * 60 * 1000);
+  const time = buildTimeReport(plan);
+
+  console.log(`\n${chalk.white.bold('📌 ' + plan.title)}`);
+  console.log(chalk.gray('─'.repeat(60)));
+  console.log(`${chalk.gray('📊 Status:')} ${plan.status}   ${chalk.gray('🎯 Complexity:')} ${plan.overview.complexity}`);
+  console.log(`${chalk.gray('✅ Steps:')} ${plan.progress.completedSteps}/${plan.progress.totalSteps} (${plan.progress.percentage}%)`);
+  console.log(
+    `${chalk.gray(plan.status === 'completed' ? '🏁 Completed in:' : '📅 Open for:')} ${formatDays(ageDays)}` +
+    chalk.gray(` (created ${plan.createdAt.toLocaleDateString()})`)
+  );
+  if (time.estimated > 0 || time.actual > 0) {
+    console.log(`${chalk.gray('⏱️  Time:')} ${formatHours(time.estimated)} estimated, ${formatHours(time.actual)} tracked`);
+  }
+}
+
+function chartedDays(points: BurndownPoint[], days?: number): BurndownPoint[] {
+  return days ? points.slice(-days) : points;
+}
+
+function printBurndown(points: BurndownPoint[], days?: number): void {
+  const shown = chartedDays(points, days);
+  if (shown.length === 0) {
+    return;
+  }
+
+  const first = shown[0];
+  const last = shown[shown.length - 1];
+  console.log(chalk.yellow(`\n📉 Burndown: remaining steps, ${formatDay(first.date)} - ${formatDay(last.date)}`));
+  renderBurndown(shown).forEach(line => console.log(`   ${chalk.cyan(line)}`));
+  console.log(chalk.gray(`   ${first.remaining}/${first.scope} open at the start, ${last.remaining}/${last.scope} now`));
+}
+
+function createBar(count: number, total: number): string {
+  const barLength = 20;
+  const filledLength = total > 0 ? Math.round((count / total) * barLength) : 0;
+  return chalk.green('█'.repeat(filledLength)) + chalk.gray('░'.repeat(barLength - filledLength));
+}
+
+function formatPercentage(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatDays(days: number): string {
+  if (days < 1) {
+    return `${Math.max(1, Math.round(days * 24))} hour(s)`;
+  }
+  return `${Math.round(days * 10) / 10} day(s)`;
+}
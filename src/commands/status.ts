@@ -0,0 +1,102 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { PLAN_STATUSES, isPlanStatus, transitionStatus } from '../utils/planStatus';
+import { ProjectPlan, PlanStatus } from '../types';
+import { createSpinner, emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const statusCommand = new Command('status')
+  .description('Show or change the lifecycle status of a plan')
+  .argument('<planId>', 'ID or title of the plan')
+  .argument('[newStatus]', `New status (${PLAN_STATUSES.join('/')})`)
+  .option('-n, --note <text>', 'Reason for the change, kept in the status history')
+  .action(async (planId: string, newStatus: string | undefined, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      if (newStatus && !isPlanStatus(newStatus)) {
+        console.error(chalk.red(`❌ Unknown status "${newStatus}"`));
+        console.log(chalk.gray(`   Valid statuses: ${PLAN_STATUSES.join(', ')}`));
+        process.exit(1);
+      }
+
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'status',
+        promptMessage: '📊 Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      if (!newStatus) {
+        emitJson({ plan: planSummary(plan), statusHistory: plan.statusHistory || [] });
+        displayStatusHistory(plan);
+        return;
+      }
+
+      const previousStatus = plan.status;
+      const transition = transitionStatus(plan, newStatus as PlanStatus, { note: options.note });
+
+      if (!transition) {
+        console.log(chalk.yellow(`🚫 Plan is already ${plan.status}`));
+        emitJson({ plan: planSummary(plan), changed: false });
+        return;
+      }
+
+      if (transition.to === 'completed' && plan.progress.completedSteps < plan.progress.totalSteps) {
+        console.log(chalk.yellow(`⚠️  ${plan.progress.totalSteps - plan.progress.completedSteps} step(s) are still open`));
+      }
+
+      const spinner = createSpinner('💾 Updating status...').start();
+      await storage.updatePlan(plan);
+      spinner.succeed('Status updated!');
+      emitJson({ plan: planSummary(plan), changed: true, previousStatus, transition });
+
+      console.log(`\n${chalk.white.bold('📌 ' + plan.title)}`);
+      console.log(`   ${getStatusBadge(previousStatus)} → ${getStatusBadge(plan.status)}`);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error updating status:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+function displayStatusHistory(plan: ProjectPlan): void {
+  console.log(`\n${chalk.white.bold('📌 ' + plan.title)}`);
+  console.log(`${chalk.gray('📊 Status:')} ${getStatusBadge(plan.status)}`);
+
+  const history = plan.statusHistory || [];
+  if (history.length === 0) {
+    console.log(chalk.gray(`\n   No status changes since creation (${plan.createdAt.toLocaleDateString()})`));
+    return;
+  }
+
+  console.log(chalk.yellow('\n🕒 Status history:'));
+  history.forEach(transition => {
+    const source = transition.automatic ? chalk.gray('auto') : chalk.cyan('manual');
+    const note = transition.note ? chalk.gray(` - ${transition.note}`) : '';
+    console.log(`   ${transition.at.toLocaleString()}  ${transition.from} → ${transition.to} (${source})${note}`);
+  });
+}
+
+// Helper functions (same as show command)
+function getStatusBadge(status: string): string {
+  switch (status) {
+    case 'completed': return chalk.bgGreen.black(' ✅ COMPLETED ');
+    case 'in-progress': return chalk.bgBlue.black(' 🔄 IN PROGRESS ');
+    case 'planning': return chalk.bgYellow.black(' 📋 PLANNING ');
+    case 'paused': return chalk.bgRed.black(' ⏸️  PAUSED ');
+    default: return chalk.bgGray.black(' ❓ UNKNOWN ');
+  }
+}
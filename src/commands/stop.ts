@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { findRunningTimers, formatHours, stopTimer, trackedHours } from '../utils/timeTracking';
+import { emitJson, planSummary, reportFailure, stepSummary } from '../utils/output';
+
+export const stopCommand = new Command('stop')
+  .description('Stop the running step timer of a plan')
+  .argument('[planId]', 'ID or title of the plan (optional)')
+  .action(async (planId: string | undefined) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'stop',
+        promptMessage: '⏹️  Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const running = findRunningTimers(plan.steps);
+      if (running.length === 0) {
+        console.log(chalk.yellow(`🚫 No timer is running in "${plan.title}"`));
+        emitJson({ plan: planSummary(plan), stopped: [] });
+        return;
+      }
+
+      const now = new Date();
+      const sessions = running.map(entry => ({ entry, hours: stopTimer(entry.step, now) || 0 }));
+
+      await storage.updatePlan(plan, { summary: `stopped timer on step ${running.map(entry => entry.path).join(', ')}` });
+
+      sessions.forEach(({ entry, hours }) => {
+        console.log(chalk.green(`⏹️  Stopped step ${entry.path}: ${entry.step.title}`));
+        console.log(chalk.gray(`   This session: ${formatHours(hours)}, total: ${formatHours(trackedHours(entry.step, now))}`));
+      });
+      emitJson({
+        plan: planSummary(plan),
+        stopped: sessions.map(({ entry, hours }) => ({
+          ...stepSummary(entry.step, entry.path),
+          sessionHours: hours,
+          trackedHours: trackedHours(entry.step, now)
+        }))
+      });
+      console.log(chalk.gray(`\n💡 Run "code-planner start ${plan.id}" to continue, or "code-planner report ${plan.id}" to compare with the estimates`));
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error stopping timer:'), errorMessage);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,197 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { TemplateStep } from '../types';
+import { selectPlanId } from '../utils/planSelector';
+import { TEMPLATE_NAME_PATTERN } from '../utils/validator';
+import { TemplateEntry, TemplateLibrary, TemplateSource } from '../templates/TemplateLibrary';
+import { countTemplateSteps, templateFromPlan } from '../templates/planTemplates';
+import { emitJson, reportFailure } from '../utils/output';
+
+const templateListCommand = new Command('list')
+  .description('List built-in and saved templates')
+  .action(async () => {
+
+    const storage = new FileStorage();
+    const library = new TemplateLibrary(storage.getLocation());
+
+    try {
+      const { templates, invalid } = await library.list();
+
+      console.log(chalk.blue('\n🧩 Plan templates:'));
+      console.log(chalk.gray('─'.repeat(70)));
+      templates.forEach(entry => {
+        const { template } = entry;
+        const overrides = entry.overrides ? chalk.yellow(` overrides ${entry.overrides.map(describeSource).join(', ')}`) : '';
+        console.log(`   ${chalk.cyan(template.name.padEnd(16))} ${chalk.gray(`[${describeSource(entry.source)}]`)} ${template.description}${overrides}`);
+        console.log(chalk.gray(`   ${' '.repeat(16)} ${template.overview.projectType}, ${countTemplateSteps(template.steps)} steps, ${template.overview.estimatedTime}`));
+      });
+
+      invalid.forEach(problem => {
+        console.log(chalk.yellow(`\n⚠️  Skipped ${problem.message}`));
+      });
+
+      console.log(chalk.gray('─'.repeat(70)));
+      console.log(chalk.gray('💡 Use "code-planner create <task> --template <name>" to start a plan from one'));
+      console.log(chalk.gray(`💡 Use "code-planner template save-from <planId>" to save a plan as a template in ${library.getTemplatesDir()}`));
+
+      emitJson({
+        templates: templates.map(entry => ({
+          name: entry.template.name,
+          source: entry.source,
+          path: entry.path || null,
+          description: entry.template.description,
+          projectType: entry.template.overview.projectType,
+          steps: countTemplateSteps(entry.template.steps),
+          overrides: entry.overrides || []
+        })),
+        invalid
+      });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error listing templates:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+const templateShowCommand = new Command('show')
+  .description('Show the steps of a template')
+  .argument('<name>', 'Template name')
+  .action(async (name: string) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const entry = await new TemplateLibrary(storage.getLocation()).find(name);
+      if (!entry) {
+        console.error(chalk.red(`❌ Template "${name}" not found`));
+        reportFailure('not_found', `Template "${name}" not found`);
+        return;
+      }
+
+      printTemplate(entry);
+      emitJson({ template: entry.template, source: entry.source, path: entry.path || null });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error loading template:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+const templateSaveFromCommand = new Command('save-from')
+  .description('Save the steps of a plan as a reusable template (without progress or tracked time)')
+  .argument('[planId]', 'ID or title of the plan (optional)')
+  .option('-n, --name <name>', 'Template name (defaults to the plan title in lowercase with dashes)')
+  .option('-f, --force', 'Replace a saved template with the same name')
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+    const library = new TemplateLibrary(storage.getLocation());
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'template save-from',
+        promptMessage: '🧩 Select a plan to save as a template:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const name: string = options.name || plan.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+      if (!TEMPLATE_NAME_PATTERN.test(name)) {
+        console.error(chalk.red(`❌ "${name}" is not a valid template name: use lowercase letters, digits and dashes`));
+        reportFailure('error', `"${name}" is not a valid template name`);
+        return;
+      }
+
+      // Only a template saved in the same place is replaced; others are merely shadowed
+      const existing = await library.find(name).catch(() => undefined);
+      const targetDir = library.getTemplatesDir();
+      if (existing && existing.path && existing.path.startsWith(targetDir) && !options.force) {
+        console.error(chalk.red(`❌ Template "${name}" already exists at ${existing.path}`));
+        console.log(chalk.gray('   Re-run with --force to replace it, or pick another name with --name'));
+        reportFailure('error', `Template "${name}" already exists, use --force to replace it`);
+        return;
+      }
+
+      const template = templateFromPlan(plan, name);
+      const filePath = await library.save(template);
+
+      console.log(chalk.green(`✅ Saved "${plan.title}" as template "${name}"`));
+      console.log(chalk.gray(`   ${filePath}`));
+      if (existing && existing.path !== filePath) {
+        console.log(chalk.yellow(`   It takes precedence over the ${describeSource(existing.source)} template of the same name`));
+      }
+      console.log(chalk.gray(`   💡 Use "code-planner create <task> --template ${name}" to start a plan from it`));
+      emitJson({ template, path: filePath });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error saving template:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+export const templateCommand = new Command('template')
+  .description('List, show and save reusable plan templates')
+  .addCommand(templateListCommand)
+  .addCommand(templateShowCommand)
+  .addCommand(templateSaveFromCommand);
+
+function describeSource(source: TemplateSource): string {
+  switch (source) {
+    case 'builtin': return 'built-in';
+    case 'local': return 'project';
+    case 'global': return 'global';
+  }
+}
+
+function printTemplate(entry: TemplateEntry): void {
+  const { template } = entry;
+
+  console.log(`\n${chalk.white.bold(`🧩 ${template.name}`)} ${chalk.gray(`[${describeSource(entry.source)}]`)}`);
+  console.log(chalk.gray(`💭 ${template.description}`));
+  if (entry.path) {
+    console.log(chalk.gray(`📄 ${entry.path}`));
+  }
+  console.log(`${chalk.gray('Type:')} ${template.overview.projectType}   ${chalk.gray('Estimated:')} ${template.overview.estimatedTime}   ${chalk.gray('Complexity:')} ${template.overview.complexity}`);
+
+  console.log(chalk.yellow('\n📝 Steps:'));
+  printSteps(template.steps, '');
+
+  if (template.dependencies.npm.length > 0) {
+    console.log(`\n${chalk.gray('📦 NPM Packages:')} ${template.dependencies.npm.join(', ')}`);
+  }
+  if (template.fileStructure.directories.length > 0) {
+    console.log(`${chalk.gray('📂 Directories:')} ${template.fileStructure.directories.join(', ')}`);
+  }
+  console.log(chalk.gray(`\n💡 "{{task}}" is replaced with the task of the new plan`));
+}
+
+function printSteps(steps: TemplateStep[], parentPath: string): void {
+  const depth = parentPath ? parentPath.split('.').length : 0;
+  const indent = '   '.repeat(depth + 1);
+
+  steps.forEach((step, index) => {
+    const path = parentPath ? `${parentPath}.${index + 1}` : String(index + 1);
+    const after = step.dependsOn && step.dependsOn.length > 0 ? chalk.gray(` (after ${step.dependsOn.join(', ')})`) : '';
+    const hours = step.estimatedHours !== undefined ? chalk.gray(` ~${step.estimatedHours}h`) : '';
+
+    console.log(`${indent}${path}. ${chalk.white(step.title)}${hours}${after}`);
+    console.log(chalk.gray(`${indent}   ${step.description}`));
+    if (step.files.length > 0) {
+      console.log(chalk.gray(`${indent}   📁 ${step.files.join(', ')}`));
+    }
+    printSteps(step.subSteps || [], path);
+  });
+}
@@ -0,0 +1,54 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { selectPlanId } from '../utils/planSelector';
+import { confirmAndRestore } from '../utils/revisionRestore';
+import { emitJson, planSummary, reportFailure } from '../utils/output';
+
+export const undoCommand = new Command('undo')
+  .description('Undo the last change to a plan')
+  .argument('<planId>', 'ID or title of the plan')
+  .option('-y, --yes', 'Restore without asking')
+  .action(async (planId: string, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'undo',
+        promptMessage: '⏪ Select a plan:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const revisions = await storage.listRevisions(plan.id);
+      const latest = revisions[revisions.length - 1];
+
+      // The revision before the latest one; undoing an undo keeps walking back
+      // instead of toggling between two revisions
+      const target = latest ? (latest.restoredFrom ?? latest.revision) - 1 : 0;
+      const snapshot = target > 0 ? await storage.loadRevision(plan.id, target) : null;
+
+      if (!snapshot) {
+        console.log(chalk.yellow(`🚫 Nothing to undo for "${plan.title}"`));
+        emitJson({ plan: planSummary(plan), restored: null });
+        return;
+      }
+
+      await confirmAndRestore(storage, plan, snapshot, options);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error undoing change:'), errorMessage);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,48 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { CONFIG_SCHEMA_VERSION, PLAN_SCHEMA_VERSION } from '../storage/schemaMigrations';
+import { createSpinner, emitJson } from '../utils/output';
+
+export const upgradeCommand = new Command('upgrade')
+  .description('Rewrite plans and config saved by older versions in the current file format')
+  .option('--dry-run', 'Only list what would be upgraded')
+  .action(async (options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const store = storage.getStore();
+      console.log(chalk.blue(`📦 Checking ${storage.getLocation().scope} ${store.backend} store: ${store.location}`));
+
+      const { planIds, config } = await storage.findOutdated();
+
+      if (planIds.length === 0 && !config) {
+        console.log(chalk.green(`✅ Everything already uses the current format (plans v${PLAN_SCHEMA_VERSION}, config v${CONFIG_SCHEMA_VERSION})`));
+        emitJson({ plans: [], config: false, dryRun: !!options.dryRun });
+        return;
+      }
+
+      if (config) {
+        console.log(`   ${chalk.cyan('⚙️  config')} → v${CONFIG_SCHEMA_VERSION}`);
+      }
+      planIds.forEach(id => console.log(`   ${chalk.cyan('📋 ' + id)} → v${PLAN_SCHEMA_VERSION}`));
+
+      if (options.dryRun) {
+        console.log(chalk.gray('\n💡 Dry run, nothing was written. Run without --dry-run to upgrade.'));
+        emitJson({ plans: planIds, config, dryRun: true });
+        return;
+      }
+
+      const spinner = createSpinner('Upgrading...').start();
+      await storage.upgradeSchema(planIds, config);
+      spinner.succeed(`Upgraded ${planIds.length} plan(s)${config ? ' and the config' : ''}`);
+      console.log(chalk.gray('   Older code-planner versions may not be able to read upgraded files.'));
+      emitJson({ plans: planIds, config, dryRun: false });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error upgrading files:'), errorMessage);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,129 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import { FileStorage } from '../storage/FileStorage';
+import { getProjectDir } from '../storage/storageLocation';
+import { selectPlanId } from '../utils/planSelector';
+import { FileCheck, StepCheck, verifyPlan } from '../utils/planVerification';
+import { setCompletedRecursive } from '../utils/stepTree';
+import { recordCompletion } from '../utils/timeTracking';
+import { createSpinner, emitJson, planSummary, reportFailure, stepSummary } from '../utils/output';
+
+export const verifyCommand = new Command('verify')
+  .description('Check the files named by each step against the project and its git history')
+  .argument('[planId]', 'ID or title of the plan (optional)')
+  .option('-d, --dir <path>', 'Project directory (defaults to the project of a local store, else the current directory)')
+  .option('--mark', 'Mark steps that look done (all files exist, and one changed since the plan was created) as completed')
+  .action(async (planId: string | undefined, options) => {
+
+    const storage = new FileStorage();
+
+    try {
+      const selectedPlanId = await selectPlanId(storage, planId, {
+        command: 'verify',
+        promptMessage: '🔎 Select a plan to verify:'
+      });
+
+      if (!selectedPlanId) {
+        return;
+      }
+
+      const plan = await storage.loadPlan(selectedPlanId);
+      if (!plan) {
+        console.error(chalk.red('❌ Plan not found'));
+        reportFailure('not_found', 'Plan not found');
+        return;
+      }
+
+      const projectDir = path.resolve(options.dir || getProjectDir(storage.getLocation()));
+      const spinner = createSpinner(`Checking files in ${projectDir}...`).start();
+      const verification = await verifyPlan(plan, projectDir);
+      spinner.stop();
+
+      console.log(chalk.blue(`\n🔎 Verifying "${plan.title}" against ${projectDir}`));
+      console.log(chalk.gray(verification.git
+        ? `   Changes: git commits and working tree changes since ${plan.createdAt.toLocaleDateString()}`
+        : '   Not a git repository: only checking that files exist'));
+      console.log(chalk.gray('─'.repeat(60)));
+      verification.steps.forEach(printStepCheck);
+
+      const looksDone = verification.steps.filter(check => check.verdict === 'looks-done');
+      const missingFiles = verification.steps.filter(check => check.verdict === 'missing-files');
+
+      console.log(chalk.gray('─'.repeat(60)));
+      if (looksDone.length === 0 && missingFiles.length === 0) {
+        console.log(chalk.green('✅ Step states match the files'));
+      }
+      if (missingFiles.length > 0) {
+        console.log(chalk.yellow(`⚠️  Completed, but files are missing: step ${missingFiles.map(check => check.path).join(', ')}`));
+      }
+
+      let marked: StepCheck[] = [];
+      if (looksDone.length > 0) {
+        console.log(chalk.yellow(`💡 Looks done, but not marked: step ${looksDone.map(check => check.path).join(', ')}`));
+
+        if (options.mark) {
+          const now = new Date();
+          looksDone.forEach(check => {
+            setCompletedRecursive(check.step, true);
+            recordCompletion(check.step, true, now);
+          });
+          await storage.updatePlan(plan, { summary: `verify marked step ${looksDone.map(check => check.path).join(', ')} as completed` });
+          marked = looksDone;
+
+          console.log(chalk.green(`\n✅ Marked ${marked.length} step(s) as completed`));
+          console.log(`   ${chalk.gray('Progress:')} ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps (${plan.progress.percentage}%)`);
+        } else {
+          console.log(chalk.gray(`   Run "code-planner verify ${plan.id} --mark" to mark them as completed`));
+        }
+      }
+
+      emitJson({
+        plan: planSummary(plan),
+        projectDir,
+        git: verification.git,
+        steps: verification.steps.map(check => ({
+          ...stepSummary(check.step, check.path),
+          verdict: check.verdict,
+          files: check.files
+        })),
+        marked: marked.map(check => check.path)
+      });
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(chalk.red('❌ Error verifying plan:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+const VERDICT_LABELS: Record<StepCheck['verdict'], string> = {
+  'consistent': '',
+  'looks-done': chalk.yellow('looks done'),
+  'missing-files': chalk.red('files missing'),
+  'unverifiable': ''
+};
+
+function printStepCheck(check: StepCheck): void {
+  const indent = '   '.repeat(check.depth);
+  const icon = check.step.completed ? '✅' : '⭕';
+  const label = VERDICT_LABELS[check.verdict];
+
+  console.log(`${indent}${icon} ${chalk.white(`${check.path}. ${check.step.title}`)}${label ? ` ${label}` : ''}`);
+  if (check.files.length === 0) {
+    console.log(chalk.gray(`${indent}     no files listed`));
+  }
+  check.files.forEach(file => console.log(`${indent}     ${formatFileCheck(file)}`));
+}
+
+function formatFileCheck(file: FileCheck): string {
+  if (!file.exists) {
+    return `${chalk.red('✖')} ${file.path} ${chalk.gray('missing')}`;
+  }
+  if (file.changed === undefined) {
+    return `${chalk.green('✔')} ${file.path}`;
+  }
+  return file.changed
+    ? `${chalk.green('✔')} ${file.path} ${chalk.gray('changed')}`
+    : `${chalk.green('✔')} ${file.path} ${chalk.gray('unchanged since the plan was created')}`;
+}
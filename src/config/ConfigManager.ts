@@ -49,11 +49,8 @@ export class ConfigManager {
   async initConfig(): Promise<void> {
     const config = await this.loadConfig();
     
-    // Set defaults if not present
-    if (!config.defaultOutputDir) {
-      config.defaultOutputDir = process.cwd();
-    }
-    
+    // Set defaults if not present. No defaultOutputDir: the directory this happens
+    // to run in is not a default for other projects.
     if (!config.maxPlans) {
       config.maxPlans = 50;
     }
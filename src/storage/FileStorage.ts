@@ -1,124 +1,171 @@
 import fs from 'fs/promises';
 import path from 'path';
-import os from 'os';
 import { ProjectPlan, PlannerConfig } from '../types';
+import { StorageLocation, getGlobalAppDir, resolveStorageLocation } from './storageLocation';
+import { PlanQuery, PlanRevision, PlanSnapshot, PlanStore, SaveOptions, StorageBackend, rankByTitle } from './PlanStore';
+import { JsonPlanStore } from './JsonPlanStore';
+import { writeFileAtomic } from './fileLock';
+import { SqlitePlanStore } from './SqlitePlanStore';
+import { CONFIG_SCHEMA_VERSION, PLAN_SCHEMA_VERSION, migrateConfig, schemaVersionOf } from './schemaMigrations';
+import { completionRatio, rollUpCompletion } from '../utils/stepTree';
+import { recordRolledUpCompletion } from '../utils/timeTracking';
+import { applyAutomaticTransition } from '../utils/planStatus';
+
+export function openPlanStore(location: StorageLocation, backend: StorageBackend = location.backend): PlanStore {
+  return backend === 'sqlite'
+    ? new SqlitePlanStore(location.databasePath)
+    : new JsonPlanStore(location.plansDir);
+}
 
 export class FileStorage {
   private configPath: string;
-  private plansDir: string;
+  private location: StorageLocation;
+  private store?: PlanStore;
 
   constructor() {
-    const homeDir = os.homedir();
-    const appDir = path.join(homeDir, '.code-planner');
-    this.configPath = path.join(appDir, 'config.json');
-    this.plansDir = path.join(appDir, 'plans');
+    this.location = resolveStorageLocation();
+    this.configPath = path.join(getGlobalAppDir(), 'config.json');
+  }
+
+  getLocation(): StorageLocation {
+    return this.location;
+  }
+
+  // Opened on first use so config-only commands never touch the plan store
+  getStore(): PlanStore {
+    if (!this.store) {
+      this.store = openPlanStore(this.location);
+    }
+    return this.store;
   }
 
   async ensureDirectories(): Promise<void> {
     try {
       await fs.mkdir(path.dirname(this.configPath), { recursive: true });
-      await fs.mkdir(this.plansDir, { recursive: true });
     } catch (error) {
       // Directory might already exist
     }
   }
 
   // Plan operations
-  async savePlan(plan: ProjectPlan): Promise<void> {
-    await this.ensureDirectories();
-    const planPath = path.join(this.plansDir, `${plan.id}.json`);
-    await fs.writeFile(planPath, JSON.stringify(plan, null, 2), 'utf-8');
+  async savePlan(plan: ProjectPlan, options?: SaveOptions): Promise<void> {
+    await this.getStore().save(plan, options);
   }
 
   async loadPlan(id: string): Promise<ProjectPlan | null> {
-    try {
-      const planPath = path.join(this.plansDir, `${id}.json`);
-      const content = await fs.readFile(planPath, 'utf-8');
-      const plan = JSON.parse(content);
-      
-      // Convert date strings back to Date objects
-      plan.createdAt = new Date(plan.createdAt);
-      plan.updatedAt = new Date(plan.updatedAt);
-      
-      return plan as ProjectPlan;
-    } catch (error) {
-      return null;
-    }
+    return this.getStore().load(id);
   }
 
-  async listPlans(): Promise<ProjectPlan[]> {
-    try {
-      await this.ensureDirectories();
-      const files = await fs.readdir(this.plansDir);
-      const planFiles = files.filter(file => file.endsWith('.json'));
-      
-      const plans: ProjectPlan[] = [];
-      
-      for (const file of planFiles) {
-        const id = path.basename(file, '.json');
-        const plan = await this.loadPlan(id);
-        if (plan) {
-          plans.push(plan);
-        }
-      }
-      
-      // Sort by creation date (newest first)
-      return plans.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-    } catch (error) {
-      return [];
-    }
+  // Newest first; without a query every plan, archived ones included
+  async listPlans(query: PlanQuery = {}): Promise<ProjectPlan[]> {
+    return this.getStore().list(query);
   }
 
   async deletePlan(id: string): Promise<boolean> {
-    try {
-      const planPath = path.join(this.plansDir, `${id}.json`);
-      await fs.unlink(planPath);
-      return true;
-    } catch (error) {
-      return false;
-    }
+    return this.getStore().delete(id);
   }
 
-  async updatePlan(plan: ProjectPlan): Promise<void> {
+  // Revision history, oldest first
+  async listRevisions(id: string): Promise<PlanRevision[]> {
+    return this.getStore().listRevisions(id);
+  }
+
+  async loadRevision(id: string, revision: number): Promise<PlanSnapshot | null> {
+    return this.getStore().loadRevision(id, revision);
+  }
+
+  // Save an earlier revision as the newest one, so restoring can itself be undone
+  async restoreRevision(current: ProjectPlan, snapshot: PlanSnapshot): Promise<ProjectPlan> {
+    const restored: ProjectPlan = {
+      ...snapshot.plan,
+      revision: current.revision,
+      updatedAt: new Date()
+    };
+    await this.savePlan(restored, {
+      summary: `restored revision ${snapshot.revision}`,
+      restoredFrom: snapshot.revision
+    });
+    return restored;
+  }
+
+  async updatePlan(plan: ProjectPlan, options?: SaveOptions): Promise<void> {
     plan.updatedAt = new Date();
     
-    // Recalculate progress
+    // Parents with sub-steps are complete only when all their sub-steps are
+    rollUpCompletion(plan.steps).forEach(step => recordRolledUpCompletion(step, plan.updatedAt));
+    
+    // Recalculate progress - partially done sub-steps count towards their parent
     const completedSteps = plan.steps.filter(step => step.completed).length;
+    const completedWork = plan.steps.reduce((sum, step) => sum + completionRatio(step), 0);
+    const previousPercentage = plan.progress ? plan.progress.percentage : 0;
     plan.progress = {
       completedSteps,
       totalSteps: plan.steps.length,
-      percentage: Math.round((completedSteps / plan.steps.length) * 100)
+      percentage: plan.steps.length > 0 ? Math.round((completedWork / plan.steps.length) * 100) : 0
     };
     
-    await this.savePlan(plan);
+    applyAutomaticTransition(plan, previousPercentage, plan.progress.percentage);
+    
+    await this.savePlan(plan, options);
   }
 
   // Configuration operations
   async loadConfig(): Promise<PlannerConfig> {
+    let content: string;
     try {
-      const content = await fs.readFile(this.configPath, 'utf-8');
-      return JSON.parse(content) as PlannerConfig;
+      content = await fs.readFile(this.configPath, 'utf-8');
     } catch (error) {
       // Return default config if file doesn't exist
       return {
-        defaultOutputDir: process.cwd(),
         maxPlans: 50
       };
     }
+    
+    // A broken config must not be replaced by defaults - that would drop the API keys
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'invalid JSON';
+      throw new Error(`Config file ${this.configPath} is not valid JSON (${errorMessage}). Fix or remove it.`);
+    }
+    return migrateConfig(value, this.configPath) as PlannerConfig;
   }
 
   async saveConfig(config: PlannerConfig): Promise<void> {
     await this.ensureDirectories();
-    await fs.writeFile(this.configPath, JSON.stringify(config, null, 2), 'utf-8');
+    const stored = { ...config, schemaVersion: CONFIG_SCHEMA_VERSION };
+    await writeFileAtomic(this.configPath, JSON.stringify(stored, null, 2));
+  }
+
+  // Plans (by id) and whether the config still use an older schema version on disk
+  async findOutdated(): Promise<{ planIds: string[]; config: boolean }> {
+    let config = false;
+    try {
+      config = schemaVersionOf(JSON.parse(await fs.readFile(this.configPath, 'utf-8'))) < CONFIG_SCHEMA_VERSION;
+    } catch (error) {
+      // No config file (nothing to upgrade) or a broken one (loadConfig reports it)
+    }
+    return { planIds: await this.getStore().outdated(), config };
+  }
+
+  // Rewrite outdated files in the current schema; loading upgrades them in memory already
+  async upgradeSchema(planIds: string[], config: boolean): Promise<void> {
+    if (config) {
+      await this.saveConfig(await this.loadConfig());
+    }
+    for (const id of planIds) {
+      const plan = await this.loadPlan(id);
+      if (plan) {
+        await this.savePlan(plan, { summary: `upgraded to schema version ${PLAN_SCHEMA_VERSION}` });
+      }
+    }
   }
 
   // Utility methods
+  // Best match first, see titleMatchScore
   async findPlansByTitle(searchTerm: string): Promise<ProjectPlan[]> {
-    const allPlans = await this.listPlans();
-    return allPlans.filter(plan => 
-      plan.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      searchTerm.toLowerCase().includes(plan.title.toLowerCase().split(' ')[0])
-    );
+    return rankByTitle(await this.listPlans({ title: searchTerm }), searchTerm);
   }
 
   async getStorageStats(): Promise<{
@@ -126,14 +173,60 @@ export class FileStorage {
     completedPlans: number;
     inProgressPlans: number;
     storageSize: string;
+    storageBytes: number;
   }> {
     const plans = await this.listPlans();
+    const storageBytes = await this.getStorageBytes();
     
     return {
       totalPlans: plans.length,
       completedPlans: plans.filter(p => p.status === 'completed').length,
       inProgressPlans: plans.filter(p => p.status === 'in-progress').length,
-      storageSize: 'Calculating...' // Could implement actual size calculation
+      storageSize: formatBytes(storageBytes),
+      storageBytes
     };
   }
+
+  // Plans plus their history, for the active backend
+  private async getStorageBytes(): Promise<number> {
+    const location = this.location;
+    const paths = location.backend === 'sqlite'
+      ? [location.databasePath, `${location.databasePath}-wal`, `${location.databasePath}-shm`]
+      : [location.plansDir, path.join(location.appDir, 'history')];
+
+    let total = 0;
+    for (const target of paths) {
+      total += await diskUsage(target);
+    }
+    return total;
+  }
+}
+
+async function diskUsage(target: string): Promise<number> {
+  let stat;
+  try {
+    stat = await fs.stat(target);
+  } catch (error) {
+    return 0;
+  }
+  if (!stat.isDirectory()) {
+    return stat.size;
+  }
+
+  let total = 0;
+  for (const entry of await fs.readdir(target)) {
+    total += await diskUsage(path.join(target, entry));
+  }
+  return total;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
 }
@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectPlan } from '../types';
+import {
+  MAX_REVISIONS,
+  PlanQuery,
+  PlanRevision,
+  PlanSnapshot,
+  PlanStore,
+  SaveOptions,
+  createSnapshot,
+  matchesQuery,
+  nextRevision,
+  parseSnapshot,
+  parseStoredPlan,
+  storedPlan
+} from './PlanStore';
+import { CorruptPlan, CorruptPlanError, SchemaVersionError } from './errors';
+import { PLAN_SCHEMA_VERSION, schemaVersionOf } from './schemaMigrations';
+import { withFileLock, writeFileAtomic } from './fileLock';
+
+// One <id>.json file per plan. Every list() reads the whole directory.
+// Writes go through a temp file + rename under a per-plan lock file.
+// History lives next to plans/ in history/<id>/<revision>.json.
+export class JsonPlanStore implements PlanStore {
+  readonly backend = 'json' as const;
+
+  constructor(readonly location: string) {}
+
+  async save(plan: ProjectPlan, options: SaveOptions = {}): Promise<void> {
+    await fs.mkdir(this.location, { recursive: true });
+    const filePath = this.planPath(plan.id);
+
+    await withFileLock(filePath, async () => {
+      const stored = await this.load(plan.id);
+      const saved = storedPlan(plan, nextRevision(plan, stored ? stored.revision ?? 0 : undefined));
+
+      await writeFileAtomic(filePath, JSON.stringify(saved, null, 2));
+      plan.revision = saved.revision;
+
+      await this.importSnapshot(createSnapshot(stored, saved, options));
+      await this.pruneHistory(plan.id);
+    });
+  }
+
+  async load(id: string): Promise<ProjectPlan | null> {
+    const filePath = this.planPath(id);
+    let content: string;
+
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    return parseStoredPlan(content, id, filePath);
+  }
+
+  async list(query: PlanQuery = {}): Promise<ProjectPlan[]> {
+    const plans: ProjectPlan[] = [];
+    const corrupt: CorruptPlan[] = [];
+
+    for (const id of await this.planIds()) {
+      try {
+        const plan = await this.load(id);
+        if (plan && matchesQuery(plan, query)) {
+          plans.push(plan);
+        }
+      } catch (error: unknown) {
+        if (!(error instanceof CorruptPlanError)) {
+          throw error;
+        }
+        corrupt.push(...error.plans);
+      }
+    }
+
+    if (corrupt.length > 0) {
+      throw new CorruptPlanError(corrupt);
+    }
+
+    // Sort by creation date (newest first)
+    plans.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return query.limit !== undefined ? plans.slice(0, query.limit) : plans;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.planPath(id));
+    } catch (error) {
+      return false;
+    }
+    await fs.rm(this.historyDir(id), { recursive: true, force: true });
+    return true;
+  }
+
+  async listRevisions(id: string): Promise<PlanRevision[]> {
+    const revisions: PlanRevision[] = [];
+
+    for (const revision of await this.revisionNumbers(id)) {
+      const snapshot = await this.loadRevision(id, revision);
+      if (snapshot) {
+        const { plan, ...info } = snapshot;
+        revisions.push(info);
+      }
+    }
+    return revisions;
+  }
+
+  async loadRevision(id: string, revision: number): Promise<PlanSnapshot | null> {
+    const filePath = path.join(this.historyDir(id), `${revision}.json`);
+    let content: string;
+
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    return parseSnapshot(content, id, filePath);
+  }
+
+  async importSnapshot(snapshot: PlanSnapshot): Promise<void> {
+    const dir = this.historyDir(snapshot.plan.id);
+    await fs.mkdir(dir, { recursive: true });
+    await writeFileAtomic(path.join(dir, `${snapshot.revision}.json`), JSON.stringify(snapshot, null, 2));
+  }
+
+  async outdated(): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (const id of await this.planIds()) {
+      try {
+        const content = await fs.readFile(this.planPath(id), 'utf-8');
+        if (schemaVersionOf(JSON.parse(content)) < PLAN_SCHEMA_VERSION) {
+          ids.push(id);
+        }
+      } catch (error) {
+        // Unreadable plans are the doctor command's business
+      }
+    }
+
+    return ids;
+  }
+
+  async check(): Promise<CorruptPlan[]> {
+    const corrupt: CorruptPlan[] = [];
+
+    for (const id of await this.planIds()) {
+      try {
+        await this.load(id);
+      } catch (error: unknown) {
+        // A plan from a newer code-planner is fine, just not for us
+        if (error instanceof SchemaVersionError) {
+          throw error;
+        }
+        if (error instanceof CorruptPlanError) {
+          corrupt.push(...error.plans);
+        } else {
+          const message = error instanceof Error ? error.message : 'unreadable';
+          corrupt.push({ id, location: this.planPath(id), reason: message });
+        }
+      }
+    }
+
+    return corrupt;
+  }
+
+  // Moves the file to a quarantine/ directory next to plans/
+  async quarantine(plan: CorruptPlan): Promise<string> {
+    const quarantineDir = path.join(path.dirname(this.location), 'quarantine');
+    await fs.mkdir(quarantineDir, { recursive: true });
+
+    const target = path.join(quarantineDir, `${plan.id}.${Date.now()}.json`);
+    await fs.rename(this.planPath(plan.id), target);
+    return target;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+
+  private async pruneHistory(id: string): Promise<void> {
+    const revisions = await this.revisionNumbers(id);
+    for (const revision of revisions.slice(0, Math.max(0, revisions.length - MAX_REVISIONS))) {
+      await fs.rm(path.join(this.historyDir(id), `${revision}.json`), { force: true });
+    }
+  }
+
+  // Ascending
+  private async revisionNumbers(id: string): Promise<number[]> {
+    try {
+      const files = await fs.readdir(this.historyDir(id));
+      return files
+        .filter(file => /^\d+\.json$/.test(file))
+        .map(file => parseInt(file, 10))
+        .sort((a, b) => a - b);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private historyDir(id: string): string {
+    return path.join(path.dirname(this.location), 'history', id);
+  }
+
+  private async planIds(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.location);
+      return files.filter(file => file.endsWith('.json')).map(file => path.basename(file, '.json'));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private planPath(id: string): string {
+    return path.join(this.location, `${id}.json`);
+  }
+}
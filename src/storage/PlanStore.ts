@@ -0,0 +1,261 @@
+import os from 'os';
+import { ProjectPlan, PlanStatus } from '../types';
+import { forEachStep } from '../utils/stepTree';
+import { diffPlans, summarizeDiff } from '../utils/planDiff';
+import { formatValidationErrors, projectPlanSchema, validate } from '../utils/validator';
+import { CorruptPlan, CorruptPlanError, PlanConflictError } from './errors';
+import { PLAN_SCHEMA_VERSION, migratePlan } from './schemaMigrations';
+
+// Persistence backend for plans. FileStorage owns the plan logic (progress, status,
+// config) and hands reading/writing to one of these.
+
+export type StorageBackend = 'json' | 'sqlite';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['json', 'sqlite'];
+
+export function isStorageBackend(value: string): value is StorageBackend {
+  return (STORAGE_BACKENDS as string[]).includes(value);
+}
+
+export interface PlanQuery {
+  status?: PlanStatus;
+  archived?: boolean;      // undefined = archived and active plans
+  title?: string;          // title search, see matchesTitle (checks every plan)
+  idPrefix?: string;       // ids starting with this, ignoring case (indexed in SQLite)
+  titlePrefix?: string;    // titles starting with this, ignoring case (indexed in SQLite)
+  createdAfter?: Date;
+  createdBefore?: Date;
+  limit?: number;
+}
+
+// Every save keeps a snapshot; this many per plan are retained
+export const MAX_REVISIONS = 100;
+
+export interface PlanRevision {
+  revision: number;
+  savedAt: Date;
+  author: string;
+  summary: string;        // what changed compared to the previous revision
+  restoredFrom?: number;  // set when the save restored an earlier revision
+}
+
+export interface PlanSnapshot extends PlanRevision {
+  plan: ProjectPlan;
+}
+
+export interface SaveOptions {
+  summary?: string;       // defaults to a summary of the diff to the stored plan
+  restoredFrom?: number;
+}
+
+export interface PlanStore {
+  readonly backend: StorageBackend;
+  readonly location: string; // directory or database file
+
+  // Fails with PlanConflictError when the stored revision is not the one the plan was loaded at
+  save(plan: ProjectPlan, options?: SaveOptions): Promise<void>;
+  // Fails with CorruptPlanError when the stored plan is unreadable and
+  // SchemaVersionError when it was written by a newer code-planner
+  load(id: string): Promise<ProjectPlan | null>;
+  // Newest first; fails with CorruptPlanError listing every unreadable plan
+  list(query?: PlanQuery): Promise<ProjectPlan[]>;
+  // Removes the plan and its history
+  delete(id: string): Promise<boolean>;
+  // Oldest first
+  listRevisions(id: string): Promise<PlanRevision[]>;
+  loadRevision(id: string, revision: number): Promise<PlanSnapshot | null>;
+  // Store a snapshot as-is (used when migrating history between backends)
+  importSnapshot(snapshot: PlanSnapshot): Promise<void>;
+  // Ids of plans stored with an older schema version (upgraded on load, not yet on disk)
+  outdated(): Promise<string[]>;
+  // Unreadable plans, for the doctor command
+  check(): Promise<CorruptPlan[]>;
+  // Move an unreadable plan out of the store; returns where it went
+  quarantine(plan: CorruptPlan): Promise<string>;
+  close(): void;
+}
+
+// Title search used by every backend, case-insensitive: the term appears in the
+// title, or each of its words does ("todo auth" finds "Todo app with auth")
+export function matchesTitle(title: string, searchTerm: string): boolean {
+  return titleMatchScore(title, searchTerm) > 0;
+}
+
+// How well a title matches a search term, 0 for no match. From best to worst:
+// the exact title, a title starting with the term, the term as whole words,
+// the term inside a word, all words of the term in any order.
+export function titleMatchScore(title: string, searchTerm: string): number {
+  const lowerTitle = title.toLowerCase().trim();
+  const lowerTerm = searchTerm.toLowerCase().trim();
+
+  if (lowerTitle === lowerTerm) {
+    return 5;
+  }
+  if (lowerTitle.startsWith(lowerTerm)) {
+    return 4;
+  }
+  const index = lowerTitle.indexOf(lowerTerm);
+  if (index !== -1) {
+    const before = lowerTitle[index - 1];
+    const after = lowerTitle[index + lowerTerm.length];
+    return isWordBoundary(before) && isWordBoundary(after) ? 3 : 2;
+  }
+  const words = lowerTerm.split(/\s+/);
+  return words.every(word => lowerTitle.includes(word)) ? 1 : 0;
+}
+
+// Matching plans, best match first (newest first among equally good matches)
+export function rankByTitle(plans: ProjectPlan[], searchTerm: string): ProjectPlan[] {
+  return plans
+    .map(plan => ({ plan, score: titleMatchScore(plan.title, searchTerm) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ plan }) => plan);
+}
+
+function isWordBoundary(char: string | undefined): boolean {
+  return char === undefined || !/[a-z0-9]/.test(char);
+}
+
+export function matchesQuery(plan: ProjectPlan, query: PlanQuery): boolean {
+  if (query.status && plan.status !== query.status) {
+    return false;
+  }
+  if (query.archived !== undefined && !!plan.archivedAt !== query.archived) {
+    return false;
+  }
+  if (query.title !== undefined && !matchesTitle(plan.title, query.title)) {
+    return false;
+  }
+  if (query.idPrefix !== undefined && !plan.id.toLowerCase().startsWith(query.idPrefix.toLowerCase())) {
+    return false;
+  }
+  if (query.titlePrefix !== undefined && !plan.title.toLowerCase().startsWith(query.titlePrefix.toLowerCase())) {
+    return false;
+  }
+  if (query.createdAfter && plan.createdAt < query.createdAfter) {
+    return false;
+  }
+  if (query.createdBefore && plan.createdAt > query.createdBefore) {
+    return false;
+  }
+  return true;
+}
+
+// Revision the next save gets; throws if someone else saved since the plan was loaded.
+// storedRevision is undefined when the plan is not stored yet.
+export function nextRevision(plan: ProjectPlan, storedRevision: number | undefined): number {
+  const expected = plan.revision ?? 0;
+  if (storedRevision !== undefined && storedRevision !== expected) {
+    throw new PlanConflictError(plan.id, expected, storedRevision);
+  }
+  return expected + 1;
+}
+
+// History entry for a plan that was just given its new revision
+export function createSnapshot(stored: ProjectPlan | null, plan: ProjectPlan, options: SaveOptions = {}): PlanSnapshot {
+  const snapshot: PlanSnapshot = {
+    revision: plan.revision ?? 0,
+    savedAt: new Date(),
+    author: currentAuthor(),
+    summary: options.summary || (stored ? summarizeDiff(diffPlans(stored, plan)) : 'created'),
+    plan
+  };
+  if (options.restoredFrom !== undefined) {
+    snapshot.restoredFrom = options.restoredFrom;
+  }
+  return snapshot;
+}
+
+// Parse and check a history entry like parseStoredPlan: undo and revert write its plan
+// back as the live plan, so a broken one throws CorruptPlanError
+export function parseSnapshot(content: string, id: string, location: string): PlanSnapshot {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'invalid JSON';
+    throw new CorruptPlanError([{ id, location, reason: `invalid JSON (${message})` }]);
+  }
+
+  const snapshot = isRecord(value) ? value : {};
+  const savedAt = new Date(snapshot.savedAt as string);
+  if (typeof snapshot.revision !== 'number' || Number.isNaN(savedAt.getTime())) {
+    throw new CorruptPlanError([{ id, location, reason: 'not a plan revision (missing revision or savedAt)' }]);
+  }
+
+  return { ...snapshot, savedAt, plan: checkStoredPlan(snapshot.plan, id, location) } as PlanSnapshot;
+}
+
+function currentAuthor(): string {
+  try {
+    return os.userInfo().username;
+  } catch (error) {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
+
+// What every backend writes: the plan with its new revision, in the current schema
+export function storedPlan(plan: ProjectPlan, revision: number): ProjectPlan & { revision: number } {
+  return { ...plan, schemaVersion: PLAN_SCHEMA_VERSION, revision };
+}
+
+// Parse, upgrade and check a stored plan, throwing CorruptPlanError when it is unusable
+export function parseStoredPlan(content: string, id: string, location: string): ProjectPlan {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'invalid JSON';
+    throw new CorruptPlanError([{ id, location, reason: `invalid JSON (${message})` }]);
+  }
+
+  return checkStoredPlan(value, id, location);
+}
+
+function checkStoredPlan(value: unknown, id: string, location: string): ProjectPlan {
+  const result = validate(migratePlan(value, location), projectPlanSchema);
+  if (!result.valid || !isRecord(value)) {
+    throw new CorruptPlanError([{ id, location, reason: `not a valid plan\n${formatValidationErrors(result.errors)}` }]);
+  }
+
+  return revivePlan(value);
+}
+
+// Convert date strings of a validated plan back to Date objects. The schema accepts
+// either, so the plan has its final shape apart from the Date types.
+export function revivePlan(value: Record<string, unknown>): ProjectPlan {
+  const plan = value as unknown as ProjectPlan;
+
+  plan.createdAt = new Date(plan.createdAt);
+  plan.updatedAt = new Date(plan.updatedAt);
+  if (plan.archivedAt) {
+    plan.archivedAt = new Date(plan.archivedAt);
+  }
+  (plan.statusHistory || []).forEach(transition => {
+    transition.at = new Date(transition.at);
+  });
+  forEachStep(plan.steps, step => {
+    if (step.startedAt) {
+      step.startedAt = new Date(step.startedAt);
+    }
+    if (step.completedAt) {
+      step.completedAt = new Date(step.completedAt);
+    }
+    (step.timeEntries || []).forEach(entry => {
+      entry.start = new Date(entry.start);
+      if (entry.end) {
+        entry.end = new Date(entry.end);
+      }
+    });
+    (step.commits || []).forEach(commit => {
+      commit.committedAt = new Date(commit.committedAt);
+    });
+  });
+
+  return plan;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
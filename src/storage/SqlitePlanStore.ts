@@ -0,0 +1,313 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ProjectPlan } from '../types';
+import {
+  MAX_REVISIONS,
+  PlanQuery,
+  PlanRevision,
+  PlanSnapshot,
+  PlanStore,
+  SaveOptions,
+  createSnapshot,
+  matchesTitle,
+  nextRevision,
+  parseSnapshot,
+  parseStoredPlan,
+  storedPlan
+} from './PlanStore';
+import { PLAN_SCHEMA_VERSION } from './schemaMigrations';
+import { CorruptPlan, CorruptPlanError } from './errors';
+
+// Sorts after every string that starts with a given prefix
+const PREFIX_END = '\u{10FFFF}';
+
+// All plans in a single SQLite file. The full plan is stored as JSON next to
+// indexed columns for status, dates, and id/title prefixes. The title search
+// (substrings, words in any order) can't use an index and checks every row.
+// Saves run in a write transaction, so the revision check and the write cannot interleave.
+export class SqlitePlanStore implements PlanStore {
+  readonly backend = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(readonly location: string) {
+    fs.mkdirSync(path.dirname(location), { recursive: true });
+    this.db = new Database(location);
+    this.db.pragma('journal_mode = WAL');
+    this.db.function('matches_title', { deterministic: true }, (title: unknown, searchTerm: unknown) =>
+      matchesTitle(String(title), String(searchTerm)) ? 1 : 0
+    );
+    this.migrate();
+  }
+
+  async save(plan: ProjectPlan, options: SaveOptions = {}): Promise<void> {
+    const write = this.db.transaction(() => {
+      const stored = this.loadRow(plan.id);
+      const saved = storedPlan(plan, nextRevision(plan, stored ? stored.revision ?? 0 : undefined));
+
+      this.upsert(saved);
+      this.insertSnapshot(createSnapshot(stored, saved, options));
+      this.db.prepare('DELETE FROM plan_revisions WHERE plan_id = ? AND revision <= ?')
+        .run(plan.id, saved.revision - MAX_REVISIONS);
+      return saved.revision;
+    });
+
+    plan.revision = write.immediate();
+  }
+
+  async load(id: string): Promise<ProjectPlan | null> {
+    return this.loadRow(id);
+  }
+
+  async list(query: PlanQuery = {}): Promise<ProjectPlan[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.archived !== undefined) {
+      conditions.push(query.archived ? 'archived_at IS NOT NULL' : 'archived_at IS NULL');
+    }
+    if (query.title !== undefined) {
+      conditions.push('matches_title(title, @title)');
+      params.title = query.title;
+    }
+    // Prefixes as NOCASE ranges, so the NOCASE indexes serve them
+    if (query.idPrefix !== undefined) {
+      conditions.push('id COLLATE NOCASE >= @idFrom AND id COLLATE NOCASE < @idTo');
+      params.idFrom = query.idPrefix;
+      params.idTo = `${query.idPrefix}${PREFIX_END}`;
+    }
+    if (query.titlePrefix !== undefined) {
+      conditions.push('title COLLATE NOCASE >= @titleFrom AND title COLLATE NOCASE < @titleTo');
+      params.titleFrom = query.titlePrefix;
+      params.titleTo = `${query.titlePrefix}${PREFIX_END}`;
+    }
+    if (query.createdAfter) {
+      conditions.push('created_at >= @createdAfter');
+      params.createdAfter = query.createdAfter.getTime();
+    }
+    if (query.createdBefore) {
+      conditions.push('created_at <= @createdBefore');
+      params.createdBefore = query.createdBefore.getTime();
+    }
+
+    let sql = 'SELECT id, data FROM plans';
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ' ORDER BY created_at DESC';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT @limit';
+      params.limit = query.limit;
+    }
+
+    const rows = this.db.prepare(sql).all(params) as PlanRow[];
+    return this.parseRows(rows);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM plan_revisions WHERE plan_id = ?').run(id);
+      return this.db.prepare('DELETE FROM plans WHERE id = ?').run(id).changes > 0;
+    }).immediate();
+  }
+
+  async listRevisions(id: string): Promise<PlanRevision[]> {
+    const rows = this.db.prepare(`
+      SELECT revision, saved_at, author, summary, restored_from
+      FROM plan_revisions WHERE plan_id = ? ORDER BY revision
+    `).all(id) as Array<Omit<RevisionRow, 'data'>>;
+
+    return rows.map(row => {
+      const revision: PlanRevision = {
+        revision: row.revision,
+        savedAt: new Date(row.saved_at),
+        author: row.author,
+        summary: row.summary
+      };
+      if (row.restored_from !== null) {
+        revision.restoredFrom = row.restored_from;
+      }
+      return revision;
+    });
+  }
+
+  async loadRevision(id: string, revision: number): Promise<PlanSnapshot | null> {
+    const row = this.db.prepare('SELECT data FROM plan_revisions WHERE plan_id = ? AND revision = ?')
+      .get(id, revision) as { data: string } | undefined;
+    return row ? parseSnapshot(row.data, id, `${this.location} (plan ${id}, revision ${revision})`) : null;
+  }
+
+  async importSnapshot(snapshot: PlanSnapshot): Promise<void> {
+    this.insertSnapshot(snapshot);
+  }
+
+  async outdated(): Promise<string[]> {
+    const rows = this.db.prepare(`
+      SELECT id FROM plans
+      WHERE json_valid(data) AND COALESCE(json_extract(data, '$.schemaVersion'), 0) < ?
+    `).all(PLAN_SCHEMA_VERSION) as Array<{ id: string }>;
+    return rows.map(row => row.id);
+  }
+
+  async check(): Promise<CorruptPlan[]> {
+    const integrity = this.db.pragma('integrity_check', { simple: true });
+    if (integrity !== 'ok') {
+      return [{ id: '*', location: this.location, reason: `database integrity check failed: ${integrity}` }];
+    }
+
+    const corrupt: CorruptPlan[] = [];
+    const rows = this.db.prepare('SELECT id, data FROM plans').all() as PlanRow[];
+    rows.forEach(row => {
+      try {
+        this.parseRow(row);
+      } catch (error: unknown) {
+        if (!(error instanceof CorruptPlanError)) {
+          throw error;
+        }
+        corrupt.push(...error.plans);
+      }
+    });
+    return corrupt;
+  }
+
+  // Moves the row to the quarantined_plans table
+  async quarantine(plan: CorruptPlan): Promise<string> {
+    if (plan.id === '*') {
+      throw new Error(`The whole database is damaged; restore ${this.location} from a backup`);
+    }
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO quarantined_plans (id, data, quarantined_at)
+        SELECT id, data, @now FROM plans WHERE id = @id
+      `).run({ id: plan.id, now: Date.now() });
+      this.db.prepare('DELETE FROM plans WHERE id = ?').run(plan.id);
+    }).immediate();
+
+    return `${this.location} (table quarantined_plans)`;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private loadRow(id: string): ProjectPlan | null {
+    const row = this.db.prepare('SELECT id, data FROM plans WHERE id = ?').get(id) as PlanRow | undefined;
+    return row ? this.parseRow(row) : null;
+  }
+
+  private parseRow(row: PlanRow): ProjectPlan {
+    return parseStoredPlan(row.data, row.id, `${this.location} (plan ${row.id})`);
+  }
+
+  // Like the JSON store, report every unreadable plan at once
+  private parseRows(rows: PlanRow[]): ProjectPlan[] {
+    const plans: ProjectPlan[] = [];
+    const corrupt: CorruptPlan[] = [];
+
+    rows.forEach(row => {
+      try {
+        plans.push(this.parseRow(row));
+      } catch (error: unknown) {
+        if (!(error instanceof CorruptPlanError)) {
+          throw error;
+        }
+        corrupt.push(...error.plans);
+      }
+    });
+
+    if (corrupt.length > 0) {
+      throw new CorruptPlanError(corrupt);
+    }
+    return plans;
+  }
+
+  private insertSnapshot(snapshot: PlanSnapshot): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO plan_revisions (plan_id, revision, saved_at, author, summary, restored_from, data)
+      VALUES (@planId, @revision, @savedAt, @author, @summary, @restoredFrom, @data)
+    `).run({
+      planId: snapshot.plan.id,
+      revision: snapshot.revision,
+      savedAt: snapshot.savedAt.getTime(),
+      author: snapshot.author,
+      summary: snapshot.summary,
+      restoredFrom: snapshot.restoredFrom ?? null,
+      data: JSON.stringify(snapshot)
+    });
+  }
+
+  private upsert(plan: ProjectPlan): void {
+    this.db.prepare(`
+      INSERT INTO plans (id, title, status, created_at, updated_at, archived_at, data)
+      VALUES (@id, @title, @status, @createdAt, @updatedAt, @archivedAt, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        title = excluded.title,
+        status = excluded.status,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        archived_at = excluded.archived_at,
+        data = excluded.data
+    `).run({
+      id: plan.id,
+      title: plan.title,
+      status: plan.status,
+      createdAt: new Date(plan.createdAt).getTime(),
+      updatedAt: new Date(plan.updatedAt).getTime(),
+      archivedAt: plan.archivedAt ? new Date(plan.archivedAt).getTime() : null,
+      data: JSON.stringify(plan)
+    });
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS plans (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        archived_at INTEGER,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS plans_status ON plans (status);
+      CREATE INDEX IF NOT EXISTS plans_id_nocase ON plans (id COLLATE NOCASE);
+      CREATE INDEX IF NOT EXISTS plans_title ON plans (title COLLATE NOCASE);
+      CREATE INDEX IF NOT EXISTS plans_created_at ON plans (created_at);
+      CREATE INDEX IF NOT EXISTS plans_archived_at ON plans (archived_at);
+      CREATE TABLE IF NOT EXISTS plan_revisions (
+        plan_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        saved_at INTEGER NOT NULL,
+        author TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        restored_from INTEGER,
+        data TEXT NOT NULL,
+        PRIMARY KEY (plan_id, revision)
+      );
+      CREATE TABLE IF NOT EXISTS quarantined_plans (
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        quarantined_at INTEGER NOT NULL
+      );
+    `);
+  }
+}
+
+interface PlanRow {
+  id: string;
+  data: string;
+}
+
+interface RevisionRow {
+  revision: number;
+  saved_at: number;
+  author: string;
+  summary: string;
+  restored_from: number | null;
+  data: string;
+}
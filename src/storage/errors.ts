@@ -0,0 +1,48 @@
+// A stored plan that cannot be read back (truncated write, hand edit gone wrong...)
+export interface CorruptPlan {
+  id: string;
+  location: string; // file, or database row
+  reason: string;
+}
+
+export class CorruptPlanError extends Error {
+  constructor(public readonly plans: CorruptPlan[]) {
+    super(
+      `${plans.length === 1 ? 'A stored plan is' : `${plans.length} stored plans are`} unreadable:\n` +
+      plans.map(plan => `- ${plan.location}: ${plan.reason}`).join('\n') +
+      '\nRun "code-planner doctor --fix" to move them to quarantine.'
+    );
+    this.name = 'CorruptPlanError';
+  }
+}
+
+// Optimistic concurrency: the plan changed on disk after it was loaded
+export class PlanConflictError extends Error {
+  constructor(
+    public readonly planId: string,
+    public readonly expectedRevision: number,
+    public readonly actualRevision: number
+  ) {
+    super(
+      `Plan "${planId}" was changed by another process (revision ${actualRevision}, expected ${expectedRevision}). ` +
+      'Nothing was saved; run the command again to apply your change to the latest version.'
+    );
+    this.name = 'PlanConflictError';
+  }
+}
+
+// A plan or config file written by a newer code-planner than the one running
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly kind: 'plan' | 'config',
+    public readonly source: string,
+    public readonly foundVersion: number,
+    public readonly supportedVersion: number
+  ) {
+    super(
+      `The ${kind} in ${source} uses schema version ${foundVersion}, but this code-planner only understands ` +
+      `up to version ${supportedVersion}. Upgrade code-planner to use it; the file was left untouched.`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
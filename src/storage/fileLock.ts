@@ -0,0 +1,74 @@
+import fs from 'fs/promises';
+
+// Crash-safe file helpers for the JSON store
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 5000;
+const STALE_LOCK_MS = 30000; // a lock this old belongs to a process that died
+
+export const TEMP_SUFFIX = '.tmp';
+export const LOCK_SUFFIX = '.lock';
+
+// Write to a temp file next to the target, then rename over it. Rename is atomic on the
+// same filesystem, so readers see either the old or the new content, never half of it.
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}${TEMP_SUFFIX}`;
+
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Run task while holding <filePath>.lock, so concurrent writers take turns
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const lockPath = `${filePath}${LOCK_SUFFIX}`;
+  const startedAt = Date.now();
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      break;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+
+      if (await isStale(lockPath)) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for ${lockPath}; another code-planner process is writing this plan`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+async function isStale(lockPath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(lockPath);
+    return Date.now() - stats.mtimeMs > STALE_LOCK_MS;
+  } catch (error) {
+    return false; // released in the meantime, just retry
+  }
+}
@@ -0,0 +1,105 @@
+import { SchemaVersionError } from './errors';
+
+// Stored plans and the config file carry the schemaVersion they were written with.
+// Older files are upgraded on load by running every migration above their version in
+// order; files from a newer code-planner are refused instead of being misread.
+// To change the stored shape: bump the version and append a migration.
+
+export const PLAN_SCHEMA_VERSION = 1;
+export const CONFIG_SCHEMA_VERSION = 1;
+
+interface Migration {
+  to: number;
+  description: string;
+  migrate(value: any): void; // upgrades the parsed JSON in place
+}
+
+const PLAN_MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: 'plans written before schema versioning',
+    migrate(plan) {
+      if (!plan.status) {
+        plan.status = 'planning';
+      }
+      upgradeSteps(plan.steps);
+    }
+  }
+];
+
+const CONFIG_MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: 'config written before schema versioning',
+    migrate(config) {
+      if (typeof config.maxPlans !== 'number') {
+        config.maxPlans = 50;
+      }
+    }
+  }
+];
+
+// Files without a schemaVersion predate versioning
+export function schemaVersionOf(value: unknown): number {
+  const version = isObject(value) ? value.schemaVersion : undefined;
+  return typeof version === 'number' ? version : 0;
+}
+
+// source names the file (or database row) in error messages
+export function migratePlan(value: unknown, source: string): unknown {
+  return runMigrations('plan', value, PLAN_MIGRATIONS, PLAN_SCHEMA_VERSION, source);
+}
+
+export function migrateConfig(value: unknown, source: string): unknown {
+  return runMigrations('config', value, CONFIG_MIGRATIONS, CONFIG_SCHEMA_VERSION, source);
+}
+
+function runMigrations(
+  kind: 'plan' | 'config',
+  value: unknown,
+  migrations: Migration[],
+  currentVersion: number,
+  source: string
+): unknown {
+  // Not an object: leave it to validation to report
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const version = schemaVersionOf(value);
+  if (version > currentVersion) {
+    throw new SchemaVersionError(kind, source, version, currentVersion);
+  }
+
+  migrations
+    .filter(migration => migration.to > version)
+    .forEach(migration => {
+      migration.migrate(value);
+      value.schemaVersion = migration.to;
+    });
+
+  return value;
+}
+
+// Older releases could leave out the list fields and order of a step
+function upgradeSteps(steps: unknown): void {
+  if (!Array.isArray(steps)) {
+    return;
+  }
+
+  steps.forEach((step, index) => {
+    if (!isObject(step)) {
+      return;
+    }
+    step.files = Array.isArray(step.files) ? step.files : [];
+    step.dependencies = Array.isArray(step.dependencies) ? step.dependencies : [];
+    if (typeof step.order !== 'number') {
+      step.order = index + 1;
+    }
+    upgradeSteps(step.subSteps);
+  });
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { StorageBackend } from './PlanStore';
+
+// Where plans live. A project-local `.code-planner/` directory (found by walking up
+// from the cwd, like git does) wins over the global store in the home directory.
+// Configuration always stays global so API keys never end up in a repository.
+// Each store is either a plans/ directory of JSON files or a plans.db SQLite file;
+// `code-planner migrate` converts between them.
+
+export const APP_DIR_NAME = '.code-planner';
+
+export type StorageScope = 'local' | 'global';
+
+// 'auto' = local when a project directory is found, global otherwise
+export type StorageScopePreference = StorageScope | 'auto';
+
+export interface StorageLocation {
+  scope: StorageScope;
+  appDir: string;
+  plansDir: string;      // JSON backend
+  databasePath: string;  // SQLite backend
+  backend: StorageBackend;
+}
+
+let scopePreference: StorageScopePreference = 'auto';
+
+// Set once per run from the --global/--local flags
+export function setStorageScope(preference: StorageScopePreference): void {
+  scopePreference = preference;
+}
+
+export function getGlobalAppDir(): string {
+  return path.join(os.homedir(), APP_DIR_NAME);
+}
+
+// Nearest `.code-planner/` directory at or above startDir, ignoring the global one
+export function findLocalAppDir(startDir: string = process.cwd()): string | null {
+  const globalAppDir = getGlobalAppDir();
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    const candidate = path.join(dir, APP_DIR_NAME);
+    if (candidate !== globalAppDir && isDirectory(candidate)) {
+      return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+export function resolveStorageLocation(preference: StorageScopePreference = scopePreference): StorageLocation {
+  if (preference !== 'global') {
+    const localAppDir = findLocalAppDir();
+    if (localAppDir) {
+      return locationIn('local', localAppDir);
+    }
+    if (preference === 'local') {
+      throw new Error(`No ${APP_DIR_NAME} directory found in ${process.cwd()} or its parents. Run "code-planner init" first.`);
+    }
+  }
+
+  return locationIn('global', getGlobalAppDir());
+}
+
+// The directory step files are relative to: the project of a local store, otherwise the cwd
+export function getProjectDir(location: StorageLocation): string {
+  return location.scope === 'local' ? path.dirname(location.appDir) : process.cwd();
+}
+
+function locationIn(scope: StorageScope, appDir: string): StorageLocation {
+  const databasePath = path.join(appDir, 'plans.db');
+  return {
+    scope,
+    appDir,
+    plansDir: path.join(appDir, 'plans'),
+    databasePath,
+    backend: fs.existsSync(databasePath) ? 'sqlite' : 'json'
+  };
+}
+
+function isDirectory(candidate: string): boolean {
+  try {
+    return fs.statSync(candidate).isDirectory();
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,123 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PlanTemplate } from '../types';
+import { StorageLocation, getGlobalAppDir, resolveStorageLocation } from '../storage/storageLocation';
+import { writeFileAtomic } from '../storage/fileLock';
+import { TEMPLATE_NAME_PATTERN, formatValidationErrors, parsePlanTemplate } from '../utils/validator';
+import { BUILTIN_TEMPLATES } from './builtinTemplates';
+
+// Built-in templates plus user templates stored as templates/<name>.json next to the
+// plans: project templates (shared through the repository) win over global ones,
+// and both win over built-ins of the same name.
+
+export const TEMPLATES_DIR_NAME = 'templates';
+
+export type TemplateSource = 'local' | 'global' | 'builtin';
+
+export interface TemplateEntry {
+  template: PlanTemplate;
+  source: TemplateSource;
+  path?: string;                 // user templates only
+  overrides?: TemplateSource[];  // sources of same-named templates this one hides
+}
+
+export interface InvalidTemplate {
+  path: string;
+  message: string;
+}
+
+export class TemplateLibrary {
+  constructor(private location: StorageLocation = resolveStorageLocation()) {}
+
+  // Where save() writes: the templates directory of the current store
+  getTemplatesDir(): string {
+    return path.join(this.location.appDir, TEMPLATES_DIR_NAME);
+  }
+
+  async list(): Promise<{ templates: TemplateEntry[]; invalid: InvalidTemplate[] }> {
+    const invalid: InvalidTemplate[] = [];
+    const candidates: TemplateEntry[] = [];
+
+    for (const { source, dir } of this.userDirectories()) {
+      const files = await fs.readdir(dir).catch(() => [] as string[]);
+      for (const file of files.filter(name => name.endsWith('.json')).sort()) {
+        const filePath = path.join(dir, file);
+        try {
+          candidates.push({ template: await readTemplateFile(filePath), source, path: filePath });
+        } catch (error: unknown) {
+          invalid.push({ path: filePath, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+    BUILTIN_TEMPLATES.forEach(template => candidates.push({ template, source: 'builtin' }));
+
+    // The first entry of a name wins (candidates are in precedence order)
+    const templates: TemplateEntry[] = [];
+    candidates.forEach(candidate => {
+      const winner = templates.find(entry => entry.template.name === candidate.template.name);
+      if (winner) {
+        winner.overrides = [...(winner.overrides || []), candidate.source];
+      } else {
+        templates.push(candidate);
+      }
+    });
+
+    return { templates, invalid };
+  }
+
+  // Throws if the name is not a valid template name (it becomes part of a path), or if
+  // a user template file of that name exists but is invalid
+  async find(name: string): Promise<TemplateEntry | undefined> {
+    checkTemplateName(name);
+    for (const { source, dir } of this.userDirectories()) {
+      const filePath = path.join(dir, `${name}.json`);
+      const exists = await fs.stat(filePath).then(() => true).catch(() => false);
+      if (exists) {
+        return { template: await readTemplateFile(filePath), source, path: filePath };
+      }
+    }
+
+    const builtin = BUILTIN_TEMPLATES.find(template => template.name === name);
+    return builtin ? { template: builtin, source: 'builtin' } : undefined;
+  }
+
+  async save(template: PlanTemplate): Promise<string> {
+    checkTemplateName(template.name);
+    const filePath = path.join(this.getTemplatesDir(), `${template.name}.json`);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await writeFileAtomic(filePath, `${JSON.stringify(template, null, 2)}\n`);
+    return filePath;
+  }
+
+  private userDirectories(): { source: TemplateSource; dir: string }[] {
+    const globalDir = path.join(getGlobalAppDir(), TEMPLATES_DIR_NAME);
+    return this.location.scope === 'local'
+      ? [{ source: 'local', dir: this.getTemplatesDir() }, { source: 'global', dir: globalDir }]
+      : [{ source: 'global', dir: globalDir }];
+  }
+}
+
+function checkTemplateName(name: string): void {
+  if (!TEMPLATE_NAME_PATTERN.test(name)) {
+    throw new Error(`"${name}" is not a valid template name: use lowercase letters, digits and dashes`);
+  }
+}
+
+async function readTemplateFile(filePath: string): Promise<PlanTemplate> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error: unknown) {
+    throw new Error(`${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // The file name is the template's name
+  const name = path.basename(filePath, '.json');
+  const isObject = typeof data === 'object' && data !== null && !Array.isArray(data);
+  const result = parsePlanTemplate(isObject ? { ...(data as Record<string, unknown>), name } : data);
+  if (!result.valid) {
+    throw new Error(`${filePath} is not a valid template:\n${formatValidationErrors(result.errors)}`);
+  }
+  return result.value!;
+}
@@ -0,0 +1,297 @@
+import { PlanTemplate } from '../types';
+
+// Templates that ship with the tool. User templates with the same name take precedence.
+// "dependsOn" lists step positions; "{{task}}" is replaced with the task description.
+
+export const BASIC_TEMPLATE_NAME = 'basic';
+
+export const BUILTIN_TEMPLATES: PlanTemplate[] = [
+  {
+    name: BASIC_TEMPLATE_NAME,
+    description: 'Generic three-step plan: setup, implementation, tests',
+    overview: { projectType: 'fullstack', estimatedTime: 'TBD', complexity: 'medium' },
+    fileStructure: {
+      directories: ['src/', 'tests/'],
+      files: ['package.json', 'README.md', 'src/index.js']
+    },
+    dependencies: { npm: [], apis: [], services: [] },
+    steps: [
+      {
+        title: 'Project Planning & Setup',
+        description: 'Plan the project structure and initialize the development environment',
+        files: ['README.md', 'package.json'],
+        dependencies: [],
+        estimatedHours: 2
+      },
+      {
+        title: 'Core Implementation',
+        description: 'Implement the main functionality for: {{task}}',
+        files: ['src/index.js'],
+        dependencies: [],
+        dependsOn: [1],
+        estimatedHours: 8
+      },
+      {
+        title: 'Testing & Refinement',
+        description: 'Add tests and refine the implementation',
+        files: ['tests/', 'src/'],
+        dependencies: [],
+        dependsOn: [2],
+        estimatedHours: 4
+      }
+    ]
+  },
+  {
+    name: 'rest-api',
+    description: 'REST API with Express, validation, persistence and tests',
+    overview: { projectType: 'backend', estimatedTime: '1-2 weeks', complexity: 'medium' },
+    fileStructure: {
+      directories: ['src/', 'src/routes/', 'src/models/', 'src/middleware/', 'tests/'],
+      files: ['package.json', 'tsconfig.json', '.env.example', 'README.md', 'src/index.ts', 'src/app.ts']
+    },
+    dependencies: {
+      npm: ['express', 'zod', 'dotenv', 'typescript', '@types/express', 'jest', 'supertest'],
+      apis: [],
+      services: ['PostgreSQL']
+    },
+    steps: [
+      {
+        title: 'Project Setup',
+        description: 'Initialize a TypeScript Node project with Express, environment configuration and scripts',
+        files: ['package.json', 'tsconfig.json', '.env.example', 'src/index.ts', 'src/app.ts'],
+        dependencies: ['express', 'typescript', 'dotenv'],
+        estimatedHours: 2
+      },
+      {
+        title: 'Data Model & Persistence',
+        description: 'Define the resources of {{task}} and connect them to the database',
+        files: ['src/models/', 'src/db.ts'],
+        dependencies: ['database driver'],
+        dependsOn: [1],
+        estimatedHours: 6
+      },
+      {
+        title: 'Routes & Validation',
+        description: 'Implement the CRUD endpoints and validate request bodies',
+        files: ['src/routes/', 'src/middleware/validate.ts'],
+        dependencies: ['zod'],
+        dependsOn: [2],
+        estimatedHours: 8
+      },
+      {
+        title: 'Error Handling & Logging',
+        description: 'Add a central error handler, consistent error responses and request logging',
+        files: ['src/middleware/errorHandler.ts'],
+        dependencies: [],
+        dependsOn: [3],
+        estimatedHours: 3
+      },
+      {
+        title: 'API Tests',
+        description: 'Cover the endpoints with integration tests',
+        files: ['tests/'],
+        dependencies: ['jest', 'supertest'],
+        dependsOn: [3],
+        estimatedHours: 5
+      },
+      {
+        title: 'Documentation & Deployment',
+        description: 'Document the endpoints and prepare the service for deployment',
+        files: ['README.md', 'Dockerfile'],
+        dependencies: [],
+        dependsOn: [4, 5],
+        estimatedHours: 3
+      }
+    ]
+  },
+  {
+    name: 'react-spa',
+    description: 'React single-page app with Vite, routing, API access and tests',
+    overview: { projectType: 'frontend', estimatedTime: '1-2 weeks', complexity: 'medium' },
+    fileStructure: {
+      directories: ['src/', 'src/components/', 'src/pages/', 'src/hooks/', 'src/services/', 'public/'],
+      files: ['package.json', 'vite.config.ts', 'index.html', 'README.md', 'src/main.tsx', 'src/App.tsx']
+    },
+    dependencies: {
+      npm: ['react', 'react-dom', 'react-router-dom', 'vite', 'typescript', 'vitest', '@testing-library/react'],
+      apis: [],
+      services: ['Static hosting']
+    },
+    steps: [
+      {
+        title: 'Project Setup',
+        description: 'Create the Vite + React + TypeScript project and basic tooling',
+        files: ['package.json', 'vite.config.ts', 'index.html', 'src/main.tsx'],
+        dependencies: ['vite', 'react', 'react-dom', 'typescript'],
+        estimatedHours: 2
+      },
+      {
+        title: 'Layout & Routing',
+        description: 'Set up the page layout, navigation and routes',
+        files: ['src/App.tsx', 'src/pages/', 'src/components/Layout.tsx'],
+        dependencies: ['react-router-dom'],
+        dependsOn: [1],
+        estimatedHours: 4
+      },
+      {
+        title: 'Components & State',
+        description: 'Build the components and state needed for {{task}}',
+        files: ['src/components/', 'src/hooks/'],
+        dependencies: [],
+        dependsOn: [2],
+        estimatedHours: 10
+      },
+      {
+        title: 'API Integration',
+        description: 'Load and save data through a small API client with loading and error states',
+        files: ['src/services/api.ts'],
+        dependencies: [],
+        dependsOn: [3],
+        estimatedHours: 5
+      },
+      {
+        title: 'Tests',
+        description: 'Test the main components and user flows',
+        files: ['src/**/*.test.tsx'],
+        dependencies: ['vitest', '@testing-library/react'],
+        dependsOn: [3],
+        estimatedHours: 4
+      },
+      {
+        title: 'Build & Deploy',
+        description: 'Optimize the production build and deploy it',
+        files: ['README.md'],
+        dependencies: [],
+        dependsOn: [4, 5],
+        estimatedHours: 2
+      }
+    ]
+  },
+  {
+    name: 'cli-tool',
+    description: 'Node command-line tool with commander, config handling and tests',
+    overview: { projectType: 'cli', estimatedTime: '1 week', complexity: 'low' },
+    fileStructure: {
+      directories: ['src/', 'src/commands/', 'tests/'],
+      files: ['package.json', 'tsconfig.json', 'README.md', 'src/cli.ts']
+    },
+    dependencies: {
+      npm: ['commander', 'chalk', 'typescript', 'jest'],
+      apis: [],
+      services: ['npm registry']
+    },
+    steps: [
+      {
+        title: 'Project Setup',
+        description: 'Initialize the TypeScript project with a bin entry point',
+        files: ['package.json', 'tsconfig.json', 'src/cli.ts'],
+        dependencies: ['typescript', 'commander'],
+        estimatedHours: 1
+      },
+      {
+        title: 'Commands',
+        description: 'Implement the commands and options for {{task}}',
+        files: ['src/commands/'],
+        dependencies: ['commander'],
+        dependsOn: [1],
+        estimatedHours: 8
+      },
+      {
+        title: 'Configuration & Errors',
+        description: 'Read configuration and environment variables, print helpful errors and use proper exit codes',
+        files: ['src/config.ts'],
+        dependencies: ['chalk'],
+        dependsOn: [2],
+        estimatedHours: 3
+      },
+      {
+        title: 'Tests',
+        description: 'Test the commands against sample inputs',
+        files: ['tests/'],
+        dependencies: ['jest'],
+        dependsOn: [2],
+        estimatedHours: 4
+      },
+      {
+        title: 'Docs & Publishing',
+        description: 'Write usage docs with examples and publish the package',
+        files: ['README.md'],
+        dependencies: [],
+        dependsOn: [3, 4],
+        estimatedHours: 2
+      }
+    ]
+  },
+  {
+    name: 'library',
+    description: 'Reusable TypeScript library with a typed public API, tests and releases',
+    overview: { projectType: 'library', estimatedTime: '1 week', complexity: 'medium' },
+    fileStructure: {
+      directories: ['src/', 'tests/', 'docs/'],
+      files: ['package.json', 'tsconfig.json', 'README.md', 'CHANGELOG.md', 'src/index.ts']
+    },
+    dependencies: {
+      npm: ['typescript', 'vitest', 'tsup'],
+      apis: [],
+      services: ['npm registry']
+    },
+    steps: [
+      {
+        title: 'Project Setup',
+        description: 'Initialize the package with TypeScript, build and test tooling',
+        files: ['package.json', 'tsconfig.json'],
+        dependencies: ['typescript', 'tsup', 'vitest'],
+        estimatedHours: 2
+      },
+      {
+        title: 'Public API Design',
+        description: 'Design the exported types and functions for {{task}}',
+        files: ['src/index.ts', 'src/types.ts'],
+        dependencies: [],
+        dependsOn: [1],
+        estimatedHours: 3
+      },
+      {
+        title: 'Implementation',
+        description: 'Implement the API behind the public entry point',
+        files: ['src/'],
+        dependencies: [],
+        dependsOn: [2],
+        estimatedHours: 8
+      },
+      {
+        title: 'Tests',
+        description: 'Unit-test the public API, including edge cases',
+        files: ['tests/'],
+        dependencies: ['vitest'],
+        dependsOn: [3],
+        estimatedHours: 4
+      },
+      {
+        title: 'Docs & Release',
+        description: 'Document the API with examples and publish the first version',
+        files: ['README.md', 'CHANGELOG.md', 'docs/'],
+        dependencies: [],
+        dependsOn: [4],
+        estimatedHours: 3
+      }
+    ]
+  }
+];
+
+// Built-in template used when the AI is unavailable, by project type
+const FALLBACK_TEMPLATES: Record<string, string> = {
+  backend: 'rest-api',
+  api: 'rest-api',
+  frontend: 'react-spa',
+  cli: 'cli-tool',
+  library: 'library'
+};
+
+export function fallbackTemplateName(projectType?: string): string {
+  return (projectType && FALLBACK_TEMPLATES[projectType.toLowerCase()]) || BASIC_TEMPLATE_NAME;
+}
+
+export function findBuiltinTemplate(name: string): PlanTemplate | undefined {
+  return BUILTIN_TEMPLATES.find(template => template.name === name);
+}
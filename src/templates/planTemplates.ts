@@ -0,0 +1,136 @@
+import { CreatePlanOptions, PlanStep, PlanTemplate, ProjectPlan, TemplateStep } from '../types';
+import { generatePlanId } from '../utils/idGenerator';
+import { renumberSteps, topologicalSort } from '../utils/stepGraph';
+import { subStepId } from '../utils/stepTree';
+import { fallbackTemplateName, findBuiltinTemplate } from './builtinTemplates';
+
+// Convert between templates (steps addressed by position) and plans (steps addressed by id)
+
+const TASK_PLACEHOLDER = /\{\{\s*task\s*\}\}/g;
+
+// A new plan for task, shaped like the template
+export function instantiateTemplate(template: PlanTemplate, task: string, options: { projectType?: string } = {}): ProjectPlan {
+  const fill = (text: string) => text.replace(TASK_PLACEHOLDER, task);
+  const now = new Date();
+
+  // Keyed by position until topologicalSort/renumberSteps assign the final ids
+  const keyedSteps = template.steps.map((step, index) => ({
+    ...toPlanStep(step, String(index + 1), index + 1, fill),
+    dependsOn: (step.dependsOn || []).map(String)
+  }));
+  const steps = renumberSteps(topologicalSort(keyedSteps));
+
+  return {
+    id: generatePlanId(task),
+    title: task,
+    description: `Development plan for: ${task}`,
+    createdAt: now,
+    updatedAt: now,
+    status: 'planning',
+    overview: {
+      ...template.overview,
+      projectType: options.projectType || template.overview.projectType
+    },
+    fileStructure: {
+      directories: [...template.fileStructure.directories],
+      files: [...template.fileStructure.files]
+    },
+    dependencies: {
+      npm: [...template.dependencies.npm],
+      apis: [...template.dependencies.apis],
+      services: [...template.dependencies.services]
+    },
+    steps,
+    progress: {
+      completedSteps: 0,
+      totalSteps: steps.length,
+      percentage: 0
+    }
+  };
+}
+
+// Plan without AI: the requested template, or the built-in one for the project type
+export function createFallbackPlan(task: string, options: CreatePlanOptions): ProjectPlan {
+  const template = options.template || findBuiltinTemplate(fallbackTemplateName(options.projectType))!;
+  return instantiateTemplate(template, task, { projectType: options.projectType });
+}
+
+// The reusable part of a plan: its shape, without progress, time or commits
+export function templateFromPlan(plan: ProjectPlan, name: string): PlanTemplate {
+  const positions = new Map(plan.steps.map((step, index) => [step.id, index + 1]));
+
+  return {
+    name,
+    description: plan.description,
+    overview: { ...plan.overview },
+    fileStructure: {
+      directories: [...plan.fileStructure.directories],
+      files: [...plan.fileStructure.files]
+    },
+    dependencies: {
+      npm: [...plan.dependencies.npm],
+      apis: [...plan.dependencies.apis],
+      services: [...plan.dependencies.services]
+    },
+    steps: plan.steps.map(step => ({
+      ...toTemplateStep(step),
+      dependsOn: (step.dependsOn || [])
+        .filter(id => positions.has(id))
+        .map(id => positions.get(id)!)
+    }))
+  };
+}
+
+// The template in the JSON shape the AI answers with, as a starting point for its plan
+export function templateSkeleton(template: PlanTemplate, task: string): object {
+  const fill = (text: string) => text.replace(TASK_PLACEHOLDER, task);
+
+  return {
+    overview: template.overview,
+    fileStructure: template.fileStructure,
+    dependencies: template.dependencies,
+    steps: template.steps.map((step, index) => ({
+      title: fill(step.title),
+      // The AI format has no sub-steps, so name them in the description
+      description: step.subSteps && step.subSteps.length > 0
+        ? `${fill(step.description)} (sub-steps: ${step.subSteps.map(subStep => fill(subStep.title)).join('; ')})`
+        : fill(step.description),
+      files: step.files,
+      dependencies: step.dependencies,
+      dependsOn: step.dependsOn || [],
+      estimatedHours: step.estimatedHours,
+      order: index + 1
+    }))
+  };
+}
+
+export function countTemplateSteps(steps: TemplateStep[]): number {
+  return steps.reduce((count, step) => count + 1 + countTemplateSteps(step.subSteps || []), 0);
+}
+
+function toPlanStep(step: TemplateStep, id: string, order: number, fill: (text: string) => string): PlanStep {
+  return {
+    id,
+    title: fill(step.title),
+    description: fill(step.description),
+    files: [...step.files],
+    dependencies: [...step.dependencies],
+    completed: false,
+    estimatedHours: step.estimatedHours,
+    order,
+    subSteps: step.subSteps && step.subSteps.length > 0
+      ? step.subSteps.map((subStep, index) => toPlanStep(subStep, subStepId(id, index + 1), index + 1, fill))
+      : undefined
+  };
+}
+
+function toTemplateStep(step: PlanStep): TemplateStep {
+  return {
+    title: step.title,
+    description: step.description,
+    files: [...step.files],
+    dependencies: [...step.dependencies],
+    estimatedHours: step.estimatedHours,
+    subSteps: step.subSteps && step.subSteps.length > 0 ? step.subSteps.map(toTemplateStep) : undefined
+  };
+}
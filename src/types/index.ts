@@ -4,10 +4,40 @@ export interface PlanStep {
   title: string;
   description: string;
   files: string[];
-  dependencies: string[];
+  dependencies: string[]; // packages/tools needed for this step
+  dependsOn?: string[];   // ids of steps that must be completed first
   completed: boolean;
+  startedAt?: Date;       // set while the step is being worked on
+  completedAt?: Date;
+  estimatedHours?: number; // planner's estimate of focused work
+  timeEntries?: TimeEntry[]; // recorded by the start/stop commands
+  commits?: StepCommit[];  // linked from "Plan-Step:" commit trailers by the link command
   order: number;
+  subSteps?: PlanStep[];  // finer-grained breakdown; completion rolls up to this step
+}
+//one stretch of work on a step
+export interface TimeEntry {
+  start: Date;
+  end?: Date; // missing while the timer is running
+}
+//a git commit made for a step
+export interface StepCommit {
+  sha: string;
+  subject: string;
+  committedAt: Date;
+}
+//lifecycle of a plan
+export type PlanStatus = 'planning' | 'in-progress' | 'completed' | 'paused';
+
+//one entry in a plan's status history
+export interface StatusTransition {
+  from: PlanStatus;
+  to: PlanStatus;
+  at: Date;
+  automatic: boolean; // true when triggered by step progress rather than the status command
+  note?: string;
 }
+
 //complete plan 
 export interface ProjectPlan {
   id: string;
@@ -15,7 +45,11 @@ export interface ProjectPlan {
   description: string;
   createdAt: Date;
   updatedAt: Date;
-  status: 'planning' | 'in-progress' | 'completed' | 'paused';
+  status: PlanStatus;
+  statusHistory?: StatusTransition[];
+  archivedAt?: Date; // archived plans are kept on disk but hidden from list
+  revision?: number; // bumped on every save to detect concurrent updates
+  schemaVersion?: number; // shape of the stored file, see storage/schemaMigrations
   overview: {
     projectType: string;
     estimatedTime: string;
@@ -38,10 +72,40 @@ export interface ProjectPlan {
   };
 }
 
+//reusable shape of a plan; steps reference each other by position (1-based)
+//and "{{task}}" in step titles/descriptions is replaced with the task
+export interface TemplateStep {
+  title: string;
+  description: string;
+  files: string[];
+  dependencies: string[];
+  dependsOn?: number[];
+  estimatedHours?: number;
+  subSteps?: TemplateStep[];
+}
+
+export interface PlanTemplate {
+  name: string;         // used with create --template
+  description: string;  // what the template is for
+  overview: ProjectPlan['overview'];
+  fileStructure: ProjectPlan['fileStructure'];
+  dependencies: ProjectPlan['dependencies'];
+  steps: TemplateStep[];
+}
+
+//LLM backends that can generate plans
+export type PlanProviderName = 'gemini' | 'openai' | 'ollama' | 'llamacpp';
+
 //settings for tool
 export interface PlannerConfig {
+  schemaVersion?: number;
   geminiApiKey?: string;
-  defaultOutputDir: string;
+  openaiApiKey?: string;
+  provider?: PlanProviderName;
+  model?: string;
+  providerBaseUrl?: string;
+  maxRepairAttempts?: number;
+  defaultOutputDir?: string; // set with config --set-output-dir; otherwise the current project directory
   maxPlans: number;
 }
 
@@ -51,4 +115,15 @@ export interface CreatePlanOptions {
   projectType?: string;
   framework?: string;
   interactive?: boolean;
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  repairAttempts?: number;
+  repositoryContext?: string; // summary of the existing codebase, see scanRepository
+  template?: PlanTemplate;    // skeleton for the AI, and the plan used when the AI fails
+}
+
+//Options for AI calls that revise an existing plan (refine, expand)
+export interface AIRequestOptions {
+  repairAttempts?: number;
 }
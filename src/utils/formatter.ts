@@ -0,0 +1,178 @@
+import { ProjectPlan, PlanStep } from '../types';
+import { flattenSteps } from './stepTree';
+import { describeSteps } from './stepGraph';
+
+// Plain-text renderings of a plan for sharing outside the CLI (PRs, design docs, spreadsheets)
+
+export type ExportFormat = 'md' | 'json' | 'html' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'html', 'csv'];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function formatPlan(plan: ProjectPlan, format: ExportFormat): string {
+  switch (format) {
+    case 'md': return formatMarkdown(plan);
+    case 'json': return formatJson(plan);
+    case 'html': return formatHtml(plan);
+    case 'csv': return formatCsv(plan);
+  }
+}
+
+export function exportFileName(plan: ProjectPlan, format: ExportFormat): string {
+  return `${plan.id}.${format}`;
+}
+
+// Markdown with a GitHub-style task list, sub-steps nested below their parent
+export function formatMarkdown(plan: ProjectPlan): string {
+  const lines: string[] = [
+    `# ${plan.title}`,
+    '',
+    plan.description,
+    '',
+    '## Overview',
+    '',
+    `- **Status:** ${plan.status}`,
+    `- **Type:** ${plan.overview.projectType}`,
+    `- **Estimated time:** ${plan.overview.estimatedTime}`,
+    `- **Complexity:** ${plan.overview.complexity}`,
+    `- **Progress:** ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps (${plan.progress.percentage}%)`,
+    '',
+    '## Steps',
+    ''
+  ];
+
+  flattenSteps(plan.steps).forEach(({ step, path, depth }) => {
+    const indent = '  '.repeat(depth);
+    lines.push(`${indent}- [${step.completed ? 'x' : ' '}] **${path}. ${step.title}**`);
+
+    const details = [step.description];
+    if (step.files.length > 0) {
+      details.push(`Files: ${step.files.map(file => `\`${file}\``).join(', ')}`);
+    }
+    if (step.dependsOn && step.dependsOn.length > 0) {
+      details.push(`Depends on: ${describeSteps(plan.steps, step.dependsOn)}`);
+    }
+    if (step.dependencies.length > 0) {
+      details.push(`Dependencies: ${step.dependencies.join(', ')}`);
+    }
+    details.filter(Boolean).forEach(detail => lines.push(`${indent}  ${detail}`));
+  });
+
+  lines.push('', '## File Structure', '');
+  plan.fileStructure.directories.forEach(dir => lines.push(`- \`${asDirectory(dir)}\``));
+  plan.fileStructure.files.forEach(file => lines.push(`- \`${file}\``));
+
+  lines.push('', '## Dependencies', '');
+  lines.push(...markdownList('NPM packages', plan.dependencies.npm));
+  lines.push(...markdownList('APIs', plan.dependencies.apis));
+  lines.push(...markdownList('Services', plan.dependencies.services));
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
+
+// Same shape as the stored plan, so an export can be imported again
+export function formatJson(plan: ProjectPlan): string {
+  return JSON.stringify(plan, null, 2) + '\n';
+}
+
+// Standalone page; the checkboxes are read-only
+export function formatHtml(plan: ProjectPlan): string {
+  const renderSteps = (steps: PlanStep[], parentPath: string): string => {
+    const items = steps.map(step => {
+      const path = parentPath ? `${parentPath}.${step.order}` : String(step.order);
+      const files = step.files.length > 0
+        ? `<div class="files">${step.files.map(file => `<code>${escapeHtml(file)}</code>`).join(', ')}</div>`
+        : '';
+      const children = step.subSteps && step.subSteps.length > 0 ? renderSteps(step.subSteps, path) : '';
+
+      return `<li><label><input type="checkbox" disabled${step.completed ? ' checked' : ''}> ` +
+        `<strong>${path}. ${escapeHtml(step.title)}</strong></label>` +
+        `<p>${escapeHtml(step.description)}</p>${files}${children}</li>`;
+    });
+    return `<ul>${items.join('\n')}</ul>`;
+  };
+
+  const htmlList = (items: string[]): string => items.length > 0
+    ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '<p>None</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(plan.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+  ul { list-style: none; padding-left: 1.2rem; }
+  li p { margin: 0.2rem 0 0.6rem 1.6rem; color: #555; }
+  .files { margin: -0.4rem 0 0.6rem 1.6rem; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(plan.title)}</h1>
+<p>${escapeHtml(plan.description)}</p>
+<h2>Overview</h2>
+<ul>
+<li><strong>Status:</strong> ${escapeHtml(plan.status)}</li>
+<li><strong>Type:</strong> ${escapeHtml(plan.overview.projectType)}</li>
+<li><strong>Estimated time:</strong> ${escapeHtml(plan.overview.estimatedTime)}</li>
+<li><strong>Complexity:</strong> ${escapeHtml(plan.overview.complexity)}</li>
+<li><strong>Progress:</strong> ${plan.progress.completedSteps}/${plan.progress.totalSteps} steps (${plan.progress.percentage}%)</li>
+</ul>
+<h2>Steps</h2>
+${renderSteps(plan.steps, '')}
+<h2>File Structure</h2>
+${htmlList([...plan.fileStructure.directories.map(asDirectory), ...plan.fileStructure.files])}
+<h2>Dependencies</h2>
+<h3>NPM packages</h3>
+${htmlList(plan.dependencies.npm)}
+<h3>APIs</h3>
+${htmlList(plan.dependencies.apis)}
+<h3>Services</h3>
+${htmlList(plan.dependencies.services)}
+</body>
+</html>
+`;
+}
+
+// One row per step (sub-steps included), e.g. for spreadsheets or issue trackers
+export function formatCsv(plan: ProjectPlan): string {
+  const header = ['step', 'title', 'description', 'completed', 'files', 'depends_on', 'dependencies'];
+  const rows = flattenSteps(plan.steps).map(({ step, path }) => [
+    path,
+    step.title,
+    step.description,
+    step.completed ? 'yes' : 'no',
+    step.files.join('; '),
+    (step.dependsOn || []).map(id => plan.steps.find(candidate => candidate.id === id)?.order ?? id).join('; '),
+    step.dependencies.join('; ')
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+function markdownList(heading: string, items: string[]): string[] {
+  if (items.length === 0) {
+    return [];
+  }
+  return [`**${heading}**`, '', ...items.map(item => `- ${item}`), ''];
+}
+
+function asDirectory(dir: string): string {
+  return dir.endsWith('/') ? dir : `${dir}/`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
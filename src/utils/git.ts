@@ -0,0 +1,92 @@
+import { execFile } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+
+// Thin wrapper around the git CLI for commands that look at the project's history.
+
+const execFileAsync = promisify(execFile);
+
+// stdout of `git -C <dir> <args>`; fails like the git command does
+export async function runGit(dir: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['-C', dir, '-c', 'core.quotePath=false', ...args], {
+    maxBuffer: 64 * 1024 * 1024
+  });
+  return stdout;
+}
+
+export async function isGitRepository(dir: string): Promise<boolean> {
+  try {
+    return (await runGit(dir, ['rev-parse', '--is-inside-work-tree'])).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+// False in a fresh repository whose branch has no commits yet
+export async function hasCommits(dir: string): Promise<boolean> {
+  try {
+    await runGit(dir, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Files below dir changed by commits since `since` or changed in the working tree
+// (staged, modified or untracked), relative to dir
+export async function changedFilesSince(dir: string, since: Date): Promise<Set<string>> {
+  // git log fails without commits; staged and untracked files still count
+  const [committed, staged, workingTree] = await Promise.all([
+    hasCommits(dir).then(found => found
+      ? runGit(dir, ['log', `--since=${since.toISOString()}`, '--name-only', '--relative', '--pretty=format:'])
+      : ''),
+    runGit(dir, ['diff', '--cached', '--name-only', '--relative']),
+    runGit(dir, ['ls-files', '--modified', '--others', '--exclude-standard'])
+  ]);
+
+  return new Set(
+    [committed, staged, workingTree]
+      .flatMap(output => output.split('\n'))
+      .map(file => file.trim())
+      .filter(Boolean)
+  );
+}
+
+export async function branchExists(dir: string, branch: string): Promise<boolean> {
+  try {
+    await runGit(dir, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Name of the checked out branch, or undefined on a detached HEAD
+export async function currentBranch(dir: string): Promise<string | undefined> {
+  try {
+    return (await runGit(dir, ['symbolic-ref', '--quiet', '--short', 'HEAD'])).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export type BranchSwitch = 'created' | 'switched' | 'current';
+
+// Check out branch, creating it from HEAD when it doesn't exist yet
+export async function switchToBranch(dir: string, branch: string): Promise<BranchSwitch> {
+  if (await currentBranch(dir) === branch) {
+    return 'current';
+  }
+  if (await branchExists(dir, branch)) {
+    await runGit(dir, ['checkout', '--quiet', branch]);
+    return 'switched';
+  }
+  await runGit(dir, ['checkout', '--quiet', '-b', branch]);
+  return 'created';
+}
+
+// Absolute hooks directory, honouring core.hooksPath
+export async function hooksDirectory(dir: string): Promise<string> {
+  const hooksPath = (await runGit(dir, ['rev-parse', '--git-path', 'hooks'])).trim();
+  return path.resolve(dir, hooksPath);
+}
@@ -0,0 +1,19 @@
+import { InvalidArgumentError } from 'commander';
+
+// Coercers for numeric options: commander reports a rejected value like any other
+// bad argument, e.g. "option '--repair-attempts <number>' argument '2abc' is invalid".
+
+export function parseNonNegativeInt(value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidArgumentError('Use a whole number of 0 or more.');
+  }
+  return parseInt(value, 10);
+}
+
+export function parsePositiveInt(value: string): number {
+  const number = /^\d+$/.test(value.trim()) ? parseInt(value, 10) : 0;
+  if (number < 1) {
+    throw new InvalidArgumentError('Use a whole number of 1 or more.');
+  }
+  return number;
+}
@@ -0,0 +1,153 @@
+import ora, { Ora } from 'ora';
+import { PlanStep, ProjectPlan } from '../types';
+import { getStepState } from './stepGraph';
+import { flattenSteps } from './stepTree';
+
+// Output modes selected by the global --json and --quiet flags.
+// Commands print for humans with console.log as usual; in json and quiet mode that
+// output (and every spinner) is dropped, so stdout only carries what a command
+// explicitly hands to emitJson or printPlain, or writes to process.stdout. Errors go
+// to console.error. Scripts can rely on:
+//   --json   exactly one JSON document on stdout, errors as { "error": { code, message } }
+//   --quiet  only plain data on stdout (plan lists, steps, export --stdout), errors on stderr
+// and on the exit codes below in every mode.
+
+export type OutputMode = 'text' | 'json' | 'quiet';
+
+export type ErrorCode = 'error' | 'not_found' | 'ambiguous' | 'input_required';
+
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  error: 1,
+  not_found: 2,
+  ambiguous: 3,
+  input_required: 4  // a prompt would be needed, pass the value as an argument instead
+};
+
+let mode: OutputMode = 'text';
+let jsonEmitted = false;
+const errorMessages: string[] = [];
+
+export function setOutputMode(outputMode: OutputMode): void {
+  mode = outputMode;
+  if (mode === 'text') {
+    return;
+  }
+
+  const silent = () => undefined;
+  const printError = console.error;
+  console.info = silent;
+  console.warn = silent;
+
+  // Error messages are kept: on stderr in quiet mode, in the JSON error document in
+  // json mode
+  console.log = silent;
+  console.error = mode === 'json'
+    ? (...args: unknown[]) => { errorMessages.push(formatMessage(args)); }
+    : printError;
+
+  if (mode === 'json') {
+    process.on('exit', emitFallbackDocument);
+  }
+
+  // A reader that stops early ("code-planner -q list | head -1") is not an error
+  process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code !== 'EPIPE') {
+      throw error;
+    }
+    process.exit(process.exitCode ?? 0);
+  });
+}
+
+export function isJsonOutput(): boolean {
+  return mode === 'json';
+}
+
+// Human-oriented output is suppressed (--json or --quiet)
+export function isMachineOutput(): boolean {
+  return mode !== 'text';
+}
+
+// Spinner that stays silent in json/quiet mode
+export function createSpinner(text: string): Ora {
+  return ora({ text, isSilent: isMachineOutput() });
+}
+
+// Print the result document of a command; only the first call counts
+export function emitJson(document: unknown): void {
+  if (mode !== 'json' || jsonEmitted) {
+    return;
+  }
+  jsonEmitted = true;
+  process.stdout.write(`${JSON.stringify(document, null, 2)}\n`);
+}
+
+// Print a line of plain data (no colors or emoji) in quiet mode; other modes ignore it,
+// so commands call it next to their console.log output
+export function printPlain(line: string): void {
+  if (mode === 'quiet') {
+    process.stdout.write(`${line}\n`);
+  }
+}
+
+// Plain forms for quiet mode, tab-separated: "<id> <status> <percentage>% <title>" for a
+// plan and "<path> <state> <title>" for each step
+export function printPlainPlan(plan: ProjectPlan): void {
+  printPlain([plan.id, plan.status, `${plan.progress.percentage}%`, plan.title].join('\t'));
+}
+
+export function printPlainSteps(steps: PlanStep[]): void {
+  flattenSteps(steps).forEach(({ step, path, parent }) => {
+    const state = parent ? (step.completed ? 'completed' : 'ready') : getStepState(steps, step);
+    printPlain([path, state, step.title].join('\t'));
+  });
+}
+
+// Record a failed lookup or similar: sets the exit code and, in json mode, the error document.
+// Human-readable messages are printed by the caller as before.
+export function reportFailure(code: ErrorCode, message: string, details: Record<string, unknown> = {}): void {
+  process.exitCode = EXIT_CODES[code];
+  emitJson({ error: { code, message, ...details } });
+}
+
+// Short form of a plan for listings
+export function planSummary(plan: ProjectPlan) {
+  return {
+    id: plan.id,
+    title: plan.title,
+    status: plan.status,
+    archived: !!plan.archivedAt,
+    createdAt: plan.createdAt,
+    updatedAt: plan.updatedAt,
+    progress: plan.progress
+  };
+}
+
+// Short form of a step, addressed by its dotted path ("3" or "3.1")
+export function stepSummary(step: PlanStep, path: string) {
+  return {
+    path,
+    id: step.id,
+    title: step.title,
+    completed: step.completed,
+    startedAt: step.startedAt,
+    completedAt: step.completedAt
+  };
+}
+
+// Commands that exit without emitting (errors from catch blocks, early returns) still
+// produce a document
+function emitFallbackDocument(code: number): void {
+  if (jsonEmitted) {
+    return;
+  }
+  if (code === 0) {
+    emitJson({ ok: true });
+    return;
+  }
+  const message = errorMessages.map(text => text.replace(/^❌\s*/, '')).join('\n') || 'Command failed';
+  emitJson({ error: { code: 'error', message } });
+}
+
+function formatMessage(args: unknown[]): string {
+  return args.map(String).join(' ').replace(/\u001b\[[0-9;]*m/g, '').trim();
+}
@@ -0,0 +1,54 @@
+import { ProjectPlan } from '../types';
+import { FileStorage } from '../storage/FileStorage';
+
+// Archived plans stay on disk but are hidden from list and the plan picker.
+// maxPlans caps the number of active (non-archived) plans.
+
+export function isArchived(plan: ProjectPlan): boolean {
+  return !!plan.archivedAt;
+}
+
+export function activePlans(plans: ProjectPlan[]): ProjectPlan[] {
+  return plans.filter(plan => !isArchived(plan));
+}
+
+// When the plan was finished: the last transition to completed, else its last update
+export function completedAt(plan: ProjectPlan): Date {
+  const history = plan.statusHistory || [];
+  for (let index = history.length - 1; index >= 0; index--) {
+    if (history[index].to === 'completed') {
+      return history[index].at;
+    }
+  }
+  return plan.updatedAt;
+}
+
+// Oldest completed plans to archive so that at most maxPlans stay active.
+// Unfinished plans are never pruned, so the result may leave more than maxPlans active.
+export function findPlansToPrune(plans: ProjectPlan[], maxPlans: number): ProjectPlan[] {
+  const active = activePlans(plans);
+  const excess = active.length - maxPlans;
+
+  if (excess <= 0) {
+    return [];
+  }
+
+  return active
+    .filter(plan => plan.status === 'completed')
+    .sort((a, b) => completedAt(a).getTime() - completedAt(b).getTime())
+    .slice(0, excess);
+}
+
+export async function archivePlans(storage: FileStorage, plans: ProjectPlan[]): Promise<void> {
+  for (const plan of plans) {
+    plan.archivedAt = new Date();
+    await storage.savePlan(plan);
+  }
+}
+
+// Archive the oldest completed plans once the configured maxPlans is exceeded
+export async function pruneOldPlans(storage: FileStorage, maxPlans: number): Promise<ProjectPlan[]> {
+  const candidates = findPlansToPrune(await storage.listPlans(), maxPlans);
+  await archivePlans(storage, candidates);
+  return candidates;
+}
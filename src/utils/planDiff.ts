@@ -0,0 +1,190 @@
+import chalk from 'chalk';
+import { ProjectPlan, PlanStep } from '../types';
+import { flattenSteps } from './stepTree';
+
+// Compare two versions of a plan. Steps (and sub-steps) are matched by id.
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export type StepChangeType = 'added' | 'removed' | 'modified' | 'completed' | 'reopened' | 'moved';
+
+export interface StepChange {
+  type: StepChangeType;
+  step: PlanStep;
+  before?: PlanStep;
+  fields?: string[];
+}
+
+export interface PlanDiff {
+  fields: FieldChange[];
+  steps: StepChange[];
+}
+
+// Progress tracking (timer, time entries, commits) counts as a change too, so undo and
+// history see a "start" or "link" as its own revision
+const STEP_FIELDS: Array<keyof PlanStep> = [
+  'title', 'description', 'files', 'dependencies', 'dependsOn',
+  'estimatedHours', 'startedAt', 'completedAt', 'timeEntries', 'commits'
+];
+
+function stringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(stringify).join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function diffPlans(before: ProjectPlan, after: ProjectPlan): PlanDiff {
+  const fields: FieldChange[] = [];
+  const compareField = (field: string, a: unknown, b: unknown) => {
+    if (stringify(a) !== stringify(b)) {
+      fields.push({ field, before: stringify(a), after: stringify(b) });
+    }
+  };
+
+  compareField('title', before.title, after.title);
+  compareField('description', before.description, after.description);
+  compareField('status', before.status, after.status);
+  compareField('archivedAt', before.archivedAt, after.archivedAt);
+  compareField('overview.projectType', before.overview.projectType, after.overview.projectType);
+  compareField('overview.estimatedTime', before.overview.estimatedTime, after.overview.estimatedTime);
+  compareField('overview.complexity', before.overview.complexity, after.overview.complexity);
+  compareField('fileStructure.directories', before.fileStructure.directories, after.fileStructure.directories);
+  compareField('fileStructure.files', before.fileStructure.files, after.fileStructure.files);
+  compareField('dependencies.npm', before.dependencies.npm, after.dependencies.npm);
+  compareField('dependencies.apis', before.dependencies.apis, after.dependencies.apis);
+  compareField('dependencies.services', before.dependencies.services, after.dependencies.services);
+
+  const steps: StepChange[] = [];
+  const beforeSteps = flattenSteps(before.steps).map(entry => entry.step);
+  const afterSteps = flattenSteps(after.steps).map(entry => entry.step);
+  const beforeById = new Map(beforeSteps.map(step => [step.id, step]));
+  const afterIds = new Set(afterSteps.map(step => step.id));
+
+  afterSteps.forEach(step => {
+    const previous = beforeById.get(step.id);
+    if (!previous) {
+      steps.push({ type: 'added', step });
+      return;
+    }
+
+    if (previous.completed !== step.completed) {
+      steps.push({ type: step.completed ? 'completed' : 'reopened', step, before: previous });
+    }
+
+    // completedAt goes with a completed/reopened change
+    const changedFields = STEP_FIELDS
+      .filter(field => field !== 'completedAt' || previous.completed === step.completed)
+      .filter(field => stringify(previous[field]) !== stringify(step[field]));
+    if (changedFields.length > 0) {
+      steps.push({ type: 'modified', step, before: previous, fields: changedFields });
+    }
+
+    if (previous.order !== step.order) {
+      steps.push({ type: 'moved', step, before: previous });
+    }
+  });
+
+  beforeSteps
+    .filter(step => !afterIds.has(step.id))
+    .forEach(step => steps.push({ type: 'removed', step }));
+
+  return { fields, steps };
+}
+
+export function hasChanges(diff: PlanDiff): boolean {
+  return diff.fields.length > 0 || diff.steps.length > 0;
+}
+
+// Plain form for --json output: steps by id and title instead of whole step objects
+export function serializeDiff(diff: PlanDiff) {
+  return {
+    fields: diff.fields,
+    steps: diff.steps.map(change => ({
+      type: change.type,
+      id: change.step.id,
+      title: change.step.title,
+      fields: change.fields
+    }))
+  };
+}
+
+// One-line description of a diff, e.g. for revision history
+export function summarizeDiff(diff: PlanDiff, maxLength: number = 100): string {
+  const parts = [
+    ...diff.steps.map(change => change.type === 'modified'
+      ? `modified "${change.step.title}" (${change.fields!.join(', ')})`
+      : `${change.type} "${change.step.title}"`),
+    ...diff.fields.map(change => {
+      switch (change.field) {
+        case 'status': return `status ${change.before} → ${change.after}`;
+        case 'archivedAt': return change.after ? 'archived' : 'unarchived';
+        default: return `${change.field} changed`;
+      }
+    })
+  ];
+
+  if (parts.length === 0) {
+    return 'no changes';
+  }
+
+  let summary = '';
+  for (let index = 0; index < parts.length; index++) {
+    const next = summary ? `${summary}; ${parts[index]}` : parts[index];
+    if (next.length > maxLength && summary) {
+      return `${summary}; +${parts.length - index} more`;
+    }
+    summary = next;
+  }
+  return summary;
+}
+
+export function printPlanDiff(diff: PlanDiff): void {
+  if (!hasChanges(diff)) {
+    console.log(chalk.gray('   (no changes)'));
+    return;
+  }
+
+  diff.fields.forEach(change => {
+    console.log(chalk.yellow(`   ~ ${change.field}`));
+    console.log(chalk.red(`       - ${change.before || '(empty)'}`));
+    console.log(chalk.green(`       + ${change.after || '(empty)'}`));
+  });
+
+  diff.steps.forEach(change => {
+    const label = `${change.step.id} "${change.step.title}"`;
+    switch (change.type) {
+      case 'added':
+        console.log(chalk.green(`   + ${label} (position ${change.step.order})`));
+        break;
+      case 'removed':
+        console.log(chalk.red(`   - ${label}`));
+        break;
+      case 'completed':
+        console.log(chalk.green(`   ✅ ${label} completed`));
+        break;
+      case 'reopened':
+        console.log(chalk.yellow(`   ⭕ ${label} reopened`));
+        break;
+      case 'moved':
+        console.log(chalk.blue(`   ↕ ${label} moved ${change.before!.order} → ${change.step.order}`));
+        break;
+      case 'modified':
+        console.log(chalk.yellow(`   ~ ${label} changed: ${change.fields!.join(', ')}`));
+        if (change.fields!.includes('title')) {
+          console.log(chalk.gray(`       was "${change.before!.title}"`));
+        }
+        break;
+    }
+  });
+}
@@ -0,0 +1,95 @@
+import { ProjectPlan, PlanStep } from '../types';
+import { renumberSteps } from './stepGraph';
+
+// Structural edits on a plan's steps. Step numbers are 1-based positions;
+// after every edit ids/order are renumbered and dependsOn references follow along.
+
+export interface StepInput {
+  title: string;
+  description?: string;
+  files?: string[];
+  dependencies?: string[];
+  dependsOn?: string[];
+}
+
+export type StepChanges = Partial<Pick<PlanStep, 'title' | 'description' | 'files' | 'dependencies'>>;
+
+export function getStepByNumber(plan: ProjectPlan, stepNumber: number): PlanStep {
+  const step = plan.steps[stepNumber - 1];
+  if (!Number.isInteger(stepNumber) || !step) {
+    throw new Error(`Step ${stepNumber} not found. Plan has ${plan.steps.length} steps.`);
+  }
+  return step;
+}
+
+// Insert a new step at the given position (defaults to the end)
+export function addStep(plan: ProjectPlan, input: StepInput, position: number = plan.steps.length + 1): PlanStep {
+  if (!Number.isInteger(position) || position < 1 || position > plan.steps.length + 1) {
+    throw new Error(`Position ${position} is out of range (1-${plan.steps.length + 1})`);
+  }
+
+  const steps = [...plan.steps];
+  steps.splice(position - 1, 0, {
+    id: `new-step-${Date.now()}`,
+    title: input.title,
+    description: input.description || '',
+    files: input.files || [],
+    dependencies: input.dependencies || [],
+    dependsOn: input.dependsOn || [],
+    completed: false,
+    order: position
+  });
+
+  plan.steps = renumberSteps(steps);
+  return plan.steps[position - 1];
+}
+
+// Remove a step; steps depending on it simply lose that prerequisite
+export function removeStep(plan: ProjectPlan, stepNumber: number): PlanStep {
+  const removed = getStepByNumber(plan, stepNumber);
+  plan.steps = renumberSteps(plan.steps.filter(step => step !== removed));
+  return removed;
+}
+
+export function moveStep(plan: ProjectPlan, from: number, to: number): PlanStep {
+  const step = getStepByNumber(plan, from);
+  if (!Number.isInteger(to) || to < 1 || to > plan.steps.length) {
+    throw new Error(`Position ${to} is out of range (1-${plan.steps.length})`);
+  }
+
+  const steps = plan.steps.filter(candidate => candidate !== step);
+  steps.splice(to - 1, 0, step);
+
+  plan.steps = renumberSteps(steps);
+  return plan.steps[to - 1];
+}
+
+export function updateStep(plan: ProjectPlan, stepNumber: number, changes: StepChanges): PlanStep {
+  const step = getStepByNumber(plan, stepNumber);
+
+  if (changes.title !== undefined) {
+    if (!changes.title.trim()) {
+      throw new Error('Step title cannot be empty');
+    }
+    step.title = changes.title.trim();
+  }
+  if (changes.description !== undefined) {
+    step.description = changes.description;
+  }
+  if (changes.files !== undefined) {
+    step.files = changes.files;
+  }
+  if (changes.dependencies !== undefined) {
+    step.dependencies = changes.dependencies;
+  }
+
+  return step;
+}
+
+// "a.ts, b.ts" -> ['a.ts', 'b.ts']
+export function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,307 @@
+import path from 'path';
+import { ProjectPlan, PlanStep } from '../types';
+import { generatePlanId, generateStepId } from './idGenerator';
+import { subStepId } from './stepTree';
+import { ValidationResult, extractJsonObject, parseProjectPlan } from './validator';
+import { migratePlan } from '../storage/schemaMigrations';
+import { SchemaVersionError } from '../storage/errors';
+
+// Turn documents from outside code-planner into plans: our own JSON export,
+// or Markdown with headings and `- [ ]` / `- [x]` checklists.
+
+export type ImportFormat = 'json' | 'md';
+
+export function detectImportFormat(filePath: string, content: string): ImportFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.json') {
+    return 'json';
+  }
+  if (extension === '.md' || extension === '.markdown') {
+    return 'md';
+  }
+  return content.trimStart().startsWith('{') ? 'json' : 'md';
+}
+
+export function importPlan(filePath: string, content: string): ValidationResult<ProjectPlan> {
+  if (detectImportFormat(filePath, content) === 'json') {
+    return importJsonPlan(content);
+  }
+
+  const fallbackTitle = path.basename(filePath, path.extname(filePath));
+  return parseProjectPlan(parseMarkdownPlan(content, fallbackTitle));
+}
+
+export function importJsonPlan(content: string): ValidationResult<ProjectPlan> {
+  const extracted = extractJsonObject(content);
+  if (!extracted.valid) {
+    return { valid: false, errors: extracted.errors };
+  }
+
+  // Exports from older releases are upgraded like stored plans
+  let value: unknown;
+  try {
+    value = migratePlan(extracted.value, 'the imported file');
+  } catch (error: unknown) {
+    if (error instanceof SchemaVersionError) {
+      return { valid: false, errors: [{ path: 'schemaVersion', message: error.message }] };
+    }
+    throw error;
+  }
+
+  const result = parseProjectPlan(value);
+  if (result.valid && !/^[\w-]+$/.test(result.value!.id)) {
+    return { valid: false, errors: [{ path: 'id', message: 'may only contain letters, digits, "-" and "_"' }] };
+  }
+  return result;
+}
+
+interface MarkdownItem {
+  step: PlanStep;
+  indent: number;
+  details: string[];
+}
+
+// Sections produced by formatMarkdown that describe the plan rather than steps
+const OVERVIEW_SECTION = /^overview$/i;
+const FILES_SECTION = /^file structure$/i;
+const DEPENDENCIES_SECTION = /^dependencies$/i;
+const STEPS_SECTION = /^(steps|tasks|todo|checklist)$/i;
+
+// Checklist items become steps, nested items become sub-steps. When checklists are spread
+// over several headings (e.g. "## Backend", "## Frontend"), each heading becomes a step
+// with its checklist as sub-steps.
+export function parseMarkdownPlan(markdown: string, fallbackTitle: string): ProjectPlan {
+  const now = new Date();
+  const lines = markdown.split(/\r?\n/);
+
+  let title = '';
+  const descriptionLines: string[] = [];
+  let section = '';
+  let subsection = '';
+
+  const overview: ProjectPlan['overview'] = { projectType: 'imported', estimatedTime: 'TBD', complexity: 'medium' };
+  const fileStructure: ProjectPlan['fileStructure'] = { directories: [], files: [] };
+  const dependencies: ProjectPlan['dependencies'] = { npm: [], apis: [], services: [] };
+
+  // Checklist items grouped by the heading they appear under
+  const groups: Array<{ heading: string; items: MarkdownItem[] }> = [];
+  let current: MarkdownItem | undefined;
+
+  for (const line of lines) {
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      current = undefined;
+      if (heading[1].length === 1 && !title) {
+        title = heading[2];
+      } else {
+        section = heading[2];
+        subsection = '';
+      }
+      continue;
+    }
+
+    const checkbox = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+    if (checkbox) {
+      const step: PlanStep = {
+        id: '',
+        title: cleanStepTitle(checkbox[3]),
+        description: '',
+        files: [],
+        dependencies: [],
+        completed: checkbox[2].toLowerCase() === 'x',
+        order: 0
+      };
+      current = { step, indent: checkbox[1].replace(/\t/g, '    ').length, details: [] };
+
+      const groupHeading = STEPS_SECTION.test(section) ? '' : section;
+      let group = groups[groups.length - 1];
+      if (!group || group.heading !== groupHeading) {
+        group = { heading: groupHeading, items: [] };
+        groups.push(group);
+      }
+      group.items.push(current);
+      continue;
+    }
+
+    const text = line.trim();
+    if (!text) {
+      continue;
+    }
+
+    // Indented text below a checklist item belongs to that item
+    if (current && /^\s+/.test(line)) {
+      current.details.push(text);
+      continue;
+    }
+    current = undefined;
+
+    if (!section) {
+      descriptionLines.push(text);
+    } else if (OVERVIEW_SECTION.test(section)) {
+      readOverviewLine(text, overview);
+    } else if (FILES_SECTION.test(section)) {
+      const entry = listEntry(text);
+      if (entry) {
+        (entry.endsWith('/') ? fileStructure.directories : fileStructure.files).push(entry);
+      }
+    } else if (DEPENDENCIES_SECTION.test(section)) {
+      const label = text.match(/^\*\*(.+?)\*\*:?$/);
+      if (label) {
+        subsection = label[1].toLowerCase();
+        continue;
+      }
+      const entry = listEntry(text);
+      if (entry) {
+        const bucket = subsection.includes('api') ? dependencies.apis
+          : subsection.includes('service') ? dependencies.services
+          : dependencies.npm;
+        bucket.push(entry);
+      }
+    }
+  }
+
+  // One unnamed group (or a single section) means the items are the steps themselves
+  const steps = groups.length === 1
+    ? buildStepTree(groups[0].items)
+    : groups.map((group, index) => ({
+      id: '',
+      title: group.heading || `Part ${index + 1}`,
+      description: '',
+      files: [],
+      dependencies: [],
+      completed: group.items.every(item => item.step.completed),
+      order: 0,
+      subSteps: buildStepTree(group.items)
+    }));
+
+  const dependsOnByOrder = new Map<PlanStep, number[]>();
+  groups.forEach(group => group.items.forEach(item => applyDetails(item, dependsOnByOrder)));
+  assignIds(steps, dependsOnByOrder);
+
+  title = title || fallbackTitle;
+
+  return {
+    id: generatePlanId(title),
+    title,
+    description: descriptionLines.join(' ') || `Imported plan: ${title}`,
+    createdAt: now,
+    updatedAt: now,
+    status: 'planning',
+    overview,
+    fileStructure,
+    dependencies,
+    steps,
+    progress: {
+      completedSteps: 0,
+      totalSteps: steps.length,
+      percentage: 0
+    }
+  };
+}
+
+// Nest items by indentation: deeper items are sub-steps of the closest shallower one
+function buildStepTree(items: MarkdownItem[]): PlanStep[] {
+  const roots: PlanStep[] = [];
+  const stack: MarkdownItem[] = [];
+
+  items.forEach(item => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= item.indent) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.step.subSteps = [...(parent.step.subSteps || []), item.step];
+    } else {
+      roots.push(item.step);
+    }
+    stack.push(item);
+  });
+
+  return roots;
+}
+
+// Detail lines as written by formatMarkdown: "Files: ...", "Depends on: ...", "Dependencies: ..."
+function applyDetails(item: MarkdownItem, dependsOnByOrder: Map<PlanStep, number[]>): void {
+  const description: string[] = [];
+
+  item.details.forEach(detail => {
+    const field = detail.match(/^(Files|Depends on|Dependencies):\s*(.*)$/i);
+    if (!field) {
+      description.push(detail);
+      return;
+    }
+
+    const label = field[1].toLowerCase();
+    if (label === 'files') {
+      item.step.files = splitList(field[2]).map(file => file.replace(/`/g, ''));
+    } else if (label === 'dependencies') {
+      item.step.dependencies = splitList(field[2]);
+    } else {
+      const orders = Array.from(field[2].matchAll(/(?:^|,\s*)(\d+)\./g), match => parseInt(match[1], 10));
+      dependsOnByOrder.set(item.step, orders);
+    }
+  });
+
+  item.step.description = description.join(' ');
+}
+
+function assignIds(steps: PlanStep[], dependsOnByOrder: Map<PlanStep, number[]>): void {
+  steps.forEach((step, index) => {
+    step.id = generateStepId(index + 1);
+    step.order = index + 1;
+    assignSubStepIds(step);
+  });
+
+  // "Depends on" refers to top-level step numbers
+  steps.forEach(step => {
+    const orders = dependsOnByOrder.get(step);
+    if (orders) {
+      step.dependsOn = orders
+        .filter(order => order >= 1 && order <= steps.length && order !== step.order)
+        .map(order => generateStepId(order));
+    }
+  });
+}
+
+function assignSubStepIds(step: PlanStep): void {
+  (step.subSteps || []).forEach((subStep, index) => {
+    subStep.id = subStepId(step.id, index + 1);
+    subStep.order = index + 1;
+    assignSubStepIds(subStep);
+  });
+}
+
+function readOverviewLine(text: string, overview: ProjectPlan['overview']): void {
+  const field = text.match(/^[-*+]\s+\*\*(.+?):?\*\*:?\s*(.*)$/);
+  if (!field) {
+    return;
+  }
+
+  const label = field[1].toLowerCase();
+  const value = field[2].trim();
+  if (label === 'type') {
+    overview.projectType = value;
+  } else if (label === 'estimated time') {
+    overview.estimatedTime = value;
+  } else if (label === 'complexity' && (value === 'low' || value === 'medium' || value === 'high')) {
+    overview.complexity = value;
+  }
+}
+
+function listEntry(text: string): string | undefined {
+  const item = text.match(/^[-*+]\s+(.*)$/);
+  return item ? item[1].replace(/`/g, '').trim() : undefined;
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// "**1. Set up project**" -> "Set up project"
+function cleanStepTitle(text: string): string {
+  return text
+    .replace(/\*\*|__/g, '')
+    .replace(/^(\d+(\.\d+)*)\.?\s+/, '')
+    .trim();
+}
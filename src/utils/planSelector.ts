@@ -0,0 +1,170 @@
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { ProjectPlan } from '../types';
+import { rankByTitle } from '../storage/PlanStore';
+import { isMachineOutput, planSummary, reportFailure } from './output';
+import { isInteractive, promptUser } from './prompt';
+
+export interface PlanSelectionOptions {
+  command: string;        // used in the hints, e.g. "show"
+  promptMessage: string;  // headline for the interactive picker
+}
+
+// How a plan reference was resolved; the first rule with a match decides
+export type PlanMatchRule = 'id' | 'id-prefix' | 'title' | 'title-search';
+
+export interface PlanResolution {
+  rule: PlanMatchRule | null;   // null when nothing matched
+  matches: ProjectPlan[];       // exactly one when resolved, best match first otherwise
+  plans?: ProjectPlan[];        // every plan, when the lookup had to list them all
+}
+
+// Resolve an id or title, in this order:
+//   1. exact id
+//   2. id prefix ("todo-app" for "todo-app-1712345678")
+//   3. exact title, ignoring case
+//   4. title search, ranked by titleMatchScore
+// A rule matching several plans makes the reference ambiguous; later rules are not tried.
+export async function resolvePlan(storage: FileStorage, reference: string): Promise<PlanResolution> {
+  const exactMatch = await storage.loadPlan(reference);
+  if (exactMatch) {
+    return { rule: 'id', matches: [exactMatch] };
+  }
+
+  const lowerReference = reference.toLowerCase().trim();
+
+  // The JSON store reads every plan file per query, so list them once and match in memory
+  if (storage.getLocation().backend !== 'sqlite') {
+    const plans = await storage.listPlans();
+    return { ...matchPlans(plans, reference, lowerReference), plans };
+  }
+
+  // SQLite answers the prefix queries from its indexes; only the title search reads every plan
+  const prefixMatches = await storage.listPlans({ idPrefix: lowerReference });
+  if (prefixMatches.length > 0) {
+    return { rule: 'id-prefix', matches: prefixMatches };
+  }
+
+  const titleMatches = (await storage.listPlans({ titlePrefix: lowerReference }))
+    .filter(plan => plan.title.toLowerCase().trim() === lowerReference);
+  if (titleMatches.length > 0) {
+    return { rule: 'title', matches: titleMatches };
+  }
+
+  const searchMatches = await storage.findPlansByTitle(reference);
+  return { rule: searchMatches.length > 0 ? 'title-search' : null, matches: searchMatches };
+}
+
+// Rules 2-4 of resolvePlan against plans already in memory
+function matchPlans(plans: ProjectPlan[], reference: string, lowerReference: string): PlanResolution {
+  const prefixMatches = plans.filter(plan => plan.id.toLowerCase().startsWith(lowerReference));
+  if (prefixMatches.length > 0) {
+    return { rule: 'id-prefix', matches: prefixMatches };
+  }
+
+  const titleMatches = plans.filter(plan => plan.title.toLowerCase().trim() === lowerReference);
+  if (titleMatches.length > 0) {
+    return { rule: 'title', matches: titleMatches };
+  }
+
+  const searchMatches = rankByTitle(plans, reference);
+  return { rule: searchMatches.length > 0 ? 'title-search' : null, matches: searchMatches };
+}
+
+// Shared plan lookup for commands taking an optional [planId]:
+// no id -> interactive picker (active plans only), otherwise resolvePlan, several matches -> picker.
+// Returns null (after explaining why and setting the exit code) when no plan could be selected.
+// Without prompts (see isInteractive) a missing id or several matches are errors listing the candidates.
+export async function selectPlanId(
+  storage: FileStorage,
+  planId: string | undefined,
+  options: PlanSelectionOptions
+): Promise<string | null> {
+  // If no planId provided, show interactive selection
+  if (!planId) {
+    const availablePlans = await storage.listPlans({ archived: false });
+    if (availablePlans.length === 0) {
+      printNoPlans();
+      reportFailure('not_found', 'No plans found');
+      return null;
+    }
+
+    if (!isInteractive()) {
+      console.error(chalk.red(`❌ A plan id is required, e.g. code-planner ${options.command} <plan-id>`));
+      printCandidates('📋 Available plans:', availablePlans);
+      reportFailure('input_required', `A plan id is required, e.g. code-planner ${options.command} <plan-id>`, {
+        plans: availablePlans.map(planSummary)
+      });
+      return null;
+    }
+
+    console.log(chalk.blue(options.promptMessage));
+    return pickPlan('Choose a plan:', availablePlans, options.command);
+  }
+
+  const { rule, matches, plans } = await resolvePlan(storage, planId);
+
+  if (matches.length === 0) {
+    const availablePlans = plans || await storage.listPlans();
+    reportFailure('not_found', `Plan "${planId}" not found`);
+    if (availablePlans.length === 0) {
+      printNoPlans();
+      return null;
+    }
+
+    console.error(chalk.red(`❌ Plan "${planId}" not found.`));
+    printCandidates('📋 Available plans:', availablePlans);
+    console.log(chalk.gray(`\n💡 Try: code-planner ${options.command} <plan-id>`));
+    console.log(chalk.gray(`🔄 Or run: code-planner ${options.command} (for interactive selection)`));
+    return null;
+  }
+
+  if (matches.length === 1) {
+    // On stderr: commands like "export --stdout" print data on stdout
+    if (rule !== 'id' && !isMachineOutput()) {
+      console.error(chalk.green(`✅ Found plan: "${matches[0].title}"`));
+    }
+    return matches[0].id;
+  }
+
+  if (!isInteractive()) {
+    console.error(chalk.red(`❌ Several plans match "${planId}", use the plan id`));
+    printCandidates('📋 Matching plans:', matches);
+    reportFailure('ambiguous', `Several plans match "${planId}", use the plan id`, {
+      matches: matches.map(planSummary)
+    });
+    return null;
+  }
+
+  console.log(chalk.yellow(`🔍 Multiple plans match "${planId}":`));
+  return pickPlan('Which plan did you mean?', matches, options.command);
+}
+
+async function pickPlan(message: string, plans: ProjectPlan[], command: string): Promise<string> {
+  const { selectedPlan } = await promptUser([
+    {
+      type: 'list',
+      name: 'selectedPlan',
+      message,
+      choices: plans.map(plan => ({
+        name: `${plan.title} (${plan.status})`,
+        value: plan.id,
+        short: plan.title
+      }))
+    }
+  ], `pass the plan id, e.g. code-planner ${command} <plan-id>`);
+
+  return selectedPlan;
+}
+
+function printCandidates(heading: string, plans: ProjectPlan[]): void {
+  console.log(chalk.yellow(`\n${heading}`));
+  plans.forEach((plan, index) => {
+    console.log(`   ${index + 1}. ${chalk.cyan(plan.id)} - ${plan.title}`);
+  });
+}
+
+function printNoPlans(): void {
+  console.log(chalk.yellow('📝 No plans found'));
+  console.log(chalk.gray('💡 Create your first plan with: code-planner create "your task"'));
+}
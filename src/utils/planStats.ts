@@ -0,0 +1,134 @@
+import { PlanStatus, ProjectPlan } from '../types';
+import { PLAN_STATUSES } from './planStatus';
+import { completedAt, isArchived } from './planArchive';
+
+// Numbers for the stats command. Step counts use top-level steps, like plan progress.
+
+type Complexity = ProjectPlan['overview']['complexity'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanStatistics {
+  total: number;
+  archived: number;
+  byStatus: Record<PlanStatus, number>;
+  byComplexity: Record<Complexity, number>;
+  steps: { total: number; completed: number };
+  planCompletionRate: number;      // 0..1
+  stepCompletionRate: number;      // 0..1
+  averageDaysToComplete?: number;  // creation to completion, over completed plans
+}
+
+export function computePlanStatistics(plans: ProjectPlan[]): PlanStatistics {
+  const byStatus = Object.fromEntries(PLAN_STATUSES.map(status => [status, 0])) as Record<PlanStatus, number>;
+  const byComplexity: Record<Complexity, number> = { low: 0, medium: 0, high: 0 };
+  let totalSteps = 0;
+  let completedSteps = 0;
+
+  plans.forEach(plan => {
+    byStatus[plan.status]++;
+    byComplexity[plan.overview.complexity]++;
+    totalSteps += plan.steps.length;
+    completedSteps += plan.steps.filter(step => step.completed).length;
+  });
+
+  const completed = plans.filter(plan => plan.status === 'completed');
+  const daysToComplete = completed.map(plan => (completedAt(plan).getTime() - plan.createdAt.getTime()) / DAY_MS);
+
+  return {
+    total: plans.length,
+    archived: plans.filter(isArchived).length,
+    byStatus,
+    byComplexity,
+    steps: { total: totalSteps, completed: completedSteps },
+    planCompletionRate: plans.length > 0 ? completed.length / plans.length : 0,
+    stepCompletionRate: totalSteps > 0 ? completedSteps / totalSteps : 0,
+    averageDaysToComplete: daysToComplete.length > 0
+      ? daysToComplete.reduce((sum, days) => sum + days, 0) / daysToComplete.length
+      : undefined
+  };
+}
+
+export interface BurndownPoint {
+  date: Date;        // start of the day
+  scope: number;     // steps of the plans that existed by the end of the day
+  remaining: number; // of those, steps not yet completed
+}
+
+// One point per day from the first plan's creation until today. Steps completed
+// before completion times were recorded count as done at the plan's last update.
+export function burndownSeries(plans: ProjectPlan[], now: Date = new Date()): BurndownPoint[] {
+  if (plans.length === 0) {
+    return [];
+  }
+
+  const steps = plans.flatMap(plan => plan.steps.map(step => ({
+    createdAt: plan.createdAt.getTime(),
+    completedAt: step.completed ? (step.completedAt || plan.updatedAt).getTime() : undefined
+  })));
+
+  const first = startOfDay(new Date(Math.min(...plans.map(plan => plan.createdAt.getTime()))));
+  const last = startOfDay(now);
+  const points: BurndownPoint[] = [];
+
+  for (let day = first; day.getTime() <= last.getTime(); day = addDays(day, 1)) {
+    const endOfDay = addDays(day, 1).getTime();
+    const inScope = steps.filter(step => step.createdAt < endOfDay);
+    points.push({
+      date: day,
+      scope: inScope.length,
+      remaining: inScope.filter(step => step.completedAt === undefined || step.completedAt >= endOfDay).length
+    });
+  }
+
+  return points;
+}
+
+// Bar chart of remaining steps; days are merged into columns when they don't fit
+// and widened (up to 4 characters) when there are only a few
+export function renderBurndown(points: BurndownPoint[], width: number = 60, height: number = 10): string[] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const columnCount = Math.min(width, points.length);
+  const columnWidth = Math.max(1, Math.min(4, Math.floor(width / columnCount)));
+  const chartWidth = columnCount * columnWidth;
+  // Each column shows the last day it covers
+  const columns = Array.from({ length: columnCount }, (_, index) =>
+    points[Math.ceil(((index + 1) * points.length) / columnCount) - 1]
+  );
+
+  const max = Math.max(1, ...columns.map(point => point.remaining));
+  const labelWidth = String(max).length;
+  const lines: string[] = [];
+
+  for (let row = height; row >= 1; row--) {
+    const threshold = (max * row) / height;
+    const halfStep = max / height / 2;
+    const bars = columns
+      .map(point => (point.remaining >= threshold ? '█' : point.remaining >= threshold - halfStep ? '▄' : ' ').repeat(columnWidth))
+      .join('');
+    const label = row === height ? String(max) : row === height / 2 ? String(Math.round(max / 2)) : '';
+    lines.push(`${label.padStart(labelWidth)} │${bars}`);
+  }
+
+  const firstLabel = formatDay(columns[0].date);
+  const lastLabel = formatDay(columns[columns.length - 1].date);
+  lines.push(`${' '.repeat(labelWidth)} └${'─'.repeat(chartWidth)}`);
+  lines.push(`${' '.repeat(labelWidth + 2)}${firstLabel}${lastLabel.padStart(Math.max(chartWidth - firstLabel.length, lastLabel.length + 1))}`);
+
+  return lines;
+}
+
+export function formatDay(date: Date): string {
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
@@ -0,0 +1,57 @@
+import { ProjectPlan, PlanStatus, StatusTransition } from '../types';
+
+export const PLAN_STATUSES: PlanStatus[] = ['planning', 'in-progress', 'completed', 'paused'];
+
+export function isPlanStatus(value: string): value is PlanStatus {
+  return (PLAN_STATUSES as string[]).includes(value);
+}
+
+// Change the status and record it in the plan's history. Returns null when nothing changed.
+export function transitionStatus(
+  plan: ProjectPlan,
+  to: PlanStatus,
+  options: { automatic?: boolean; note?: string } = {}
+): StatusTransition | null {
+  if (plan.status === to) {
+    return null;
+  }
+
+  const transition: StatusTransition = {
+    from: plan.status,
+    to,
+    at: new Date(),
+    automatic: !!options.automatic
+  };
+  if (options.note) {
+    transition.note = options.note;
+  }
+
+  plan.status = to;
+  plan.statusHistory = [...(plan.statusHistory || []), transition];
+  return transition;
+}
+
+// Status changes implied by a progress update (previous -> next percentage):
+// the first progress moves a plan out of planning, finishing every step completes it,
+// and reopening a step of a completed plan puts it back in progress.
+export function applyAutomaticTransition(
+  plan: ProjectPlan,
+  previousPercentage: number,
+  nextPercentage: number
+): StatusTransition | null {
+  const allDone = plan.steps.length > 0 && plan.steps.every(step => step.completed);
+
+  if (allDone && plan.status !== 'completed' && previousPercentage < 100) {
+    return transitionStatus(plan, 'completed', { automatic: true, note: 'all steps completed' });
+  }
+
+  if (!allDone && plan.status === 'completed' && previousPercentage === 100) {
+    return transitionStatus(plan, 'in-progress', { automatic: true, note: 'step reopened' });
+  }
+
+  if (plan.status === 'planning' && nextPercentage > previousPercentage) {
+    return transitionStatus(plan, 'in-progress', { automatic: true, note: 'work started' });
+  }
+
+  return null;
+}
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectPlan } from '../types';
+import { FlatStep, flattenSteps, hasSubSteps } from './stepTree';
+import { changedFilesSince, isGitRepository } from './git';
+
+// Compare a plan with the project on disk: do the files each step names exist,
+// and did they change (git) since the plan was created?
+
+export interface FileCheck {
+  path: string;
+  exists: boolean;
+  changed?: boolean;     // undefined without git history
+}
+
+// consistent: the completion state agrees with the files
+// looks-done: open, but every file exists (and one changed, with git)
+// missing-files: marked completed, but some files don't exist
+// unverifiable: the step names no files, or its state comes from its sub-steps
+export type StepVerdict = 'consistent' | 'looks-done' | 'missing-files' | 'unverifiable';
+
+export interface StepCheck extends FlatStep {
+  files: FileCheck[];
+  verdict: StepVerdict;
+}
+
+export interface PlanVerification {
+  projectDir: string;
+  git: boolean;
+  steps: StepCheck[];
+}
+
+export async function verifyPlan(plan: ProjectPlan, projectDir: string): Promise<PlanVerification> {
+  const git = await isGitRepository(projectDir);
+  const changed = git ? await changedFilesSince(projectDir, plan.createdAt) : undefined;
+
+  const steps: StepCheck[] = [];
+  for (const entry of flattenSteps(plan.steps)) {
+    const files = await Promise.all(entry.step.files.map(file => checkFile(projectDir, file, changed)));
+    steps.push({ ...entry, files, verdict: judge(entry, files) });
+  }
+
+  return { projectDir, git, steps };
+}
+
+function judge({ step }: FlatStep, files: FileCheck[]): StepVerdict {
+  if (files.length === 0 || hasSubSteps(step)) {
+    return 'unverifiable';
+  }
+
+  const allExist = files.every(file => file.exists);
+  if (step.completed) {
+    return allExist ? 'consistent' : 'missing-files';
+  }
+
+  // Files that were already there before the plan don't show that the step was done
+  const worked = files.some(file => file.changed !== false);
+  return allExist && worked ? 'looks-done' : 'consistent';
+}
+
+async function checkFile(projectDir: string, file: string, changed: Set<string> | undefined): Promise<FileCheck> {
+  // Plans name files like "./src/app.ts" or directories like "src/components/"
+  const relativePath = path.posix.normalize(file.trim().replace(/\\/g, '/')).replace(/^(\.\/)+|\/+$/g, '');
+  const stats = await fs.stat(path.join(projectDir, relativePath)).catch(() => null);
+
+  let wasChanged: boolean | undefined;
+  if (changed) {
+    wasChanged = changed.has(relativePath) ||
+      (!!stats && stats.isDirectory() && [...changed].some(changedFile => changedFile.startsWith(`${relativePath}/`)));
+  }
+
+  return { path: file, exists: !!stats, changed: wasChanged };
+}
@@ -0,0 +1,28 @@
+import chalk from 'chalk';
+import inquirer, { Answers, QuestionCollection } from 'inquirer';
+import { reportFailure } from './output';
+
+// Whether commands may prompt. Off with --no-interactive or --json, and when stdin
+// is not a terminal (CI, pipes), where a prompt would wait forever.
+let interactive = true;
+
+export function setInteractive(value: boolean): void {
+  interactive = value;
+}
+
+export function isInteractive(): boolean {
+  return interactive;
+}
+
+// inquirer.prompt for commands. Without a terminal to ask on, explains which argument
+// or flag supplies the answer (`hint`) and exits with the input_required code.
+export async function promptUser<T extends Answers = Answers>(questions: QuestionCollection<T>, hint: string): Promise<T> {
+  if (!interactive) {
+    console.error(chalk.red(`❌ Input required: ${hint}`));
+    console.error(chalk.gray('   Prompts are disabled (--no-interactive, --json, or stdin is not a terminal)'));
+    reportFailure('input_required', `Input required: ${hint}`);
+    process.exit();
+  }
+
+  return inquirer.prompt<T>(questions);
+}
@@ -0,0 +1,329 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { APP_DIR_NAME } from '../storage/storageLocation';
+import { runGit } from './git';
+
+// Summary of an existing codebase for the planning prompt (create --context):
+// package.json and tsconfig essentials, the directory layout and file names,
+// cut to a token budget so a large repository doesn't crowd out the task.
+
+export const DEFAULT_CONTEXT_TOKENS = 2000;
+
+// Never worth sending, whether or not .gitignore lists them
+const ALWAYS_IGNORED = ['.git', 'node_modules', APP_DIR_NAME];
+const MAX_FILES = 5000;
+const LAYOUT_DEPTH = 3;
+const LAYOUT_SHARE = 0.4;  // of the budget left after the manifests
+
+// Listed before the rest, so the budget goes to the files a plan most likely touches
+const KEY_FILE_PATTERN = /^(index|main|app|server|cli|cmd)\.[cm]?[jt]sx?$|^(readme|contributing)(\.md)?$|\.config\.[cm]?[jt]s$|^dockerfile$/i;
+
+export interface RepositoryContext {
+  root: string;
+  text: string;          // goes into the prompt
+  fileCount: number;
+  listedFiles: number;   // file names that fit into the budget
+  tokens: number;        // estimate, see estimateTokens
+}
+
+export async function scanRepository(dir: string, tokenBudget: number = DEFAULT_CONTEXT_TOKENS): Promise<RepositoryContext> {
+  const root = path.resolve(dir);
+  const stats = await fs.stat(root).catch(() => null);
+  if (!stats || !stats.isDirectory()) {
+    throw new Error(`${root} is not a directory`);
+  }
+
+  const files = ((await listGitFiles(root)) || (await walkFiles(root))).sort();
+
+  const lines = [`Repository "${path.basename(root)}" (${files.length}${files.length >= MAX_FILES ? '+' : ''} files)`];
+  lines.push(...await summarizePackageJson(root));
+  lines.push(...await summarizeTsconfig(root));
+
+  let budgetLeft = tokenBudget - estimateTokens(lines.join('\n'));
+  const addWithin = (candidates: string[], budget: number): number => {
+    let added = 0;
+    for (const line of candidates) {
+      const cost = estimateTokens(line) + 1;
+      if (cost > budget) {
+        break;
+      }
+      lines.push(line);
+      budget -= cost;
+      budgetLeft -= cost;
+      added++;
+    }
+    return added;
+  };
+
+  const layout = describeLayout(files);
+  if (layout.length > 0) {
+    lines.push('Directory layout:');
+    const shown = addWithin(layout, budgetLeft * LAYOUT_SHARE);
+    if (shown < layout.length) {
+      lines.push(`  ... ${layout.length - shown} more directories`);
+    }
+  }
+
+  lines.push('Files:');
+  const listedFiles = addWithin(prioritizeFiles(files).map(file => `  ${file}`), budgetLeft);
+  if (listedFiles < files.length) {
+    lines.push(`  ... ${files.length - listedFiles} more files`);
+  }
+
+  const text = lines.join('\n');
+  return { root, text, fileCount: files.length, listedFiles, tokens: estimateTokens(text) };
+}
+
+// Rough count for budgeting: about four characters per token for code and paths
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Tracked and untracked files minus ignored ones, exactly as git sees them; null outside a work tree
+async function listGitFiles(root: string): Promise<string[] | null> {
+  try {
+    const stdout = await runGit(root, ['ls-files', '--cached', '--others', '--exclude-standard', '-z']);
+    return stdout
+      .split('\0')
+      .filter(file => file && !file.split('/').some(part => ALWAYS_IGNORED.includes(part)))
+      .slice(0, MAX_FILES);
+  } catch {
+    return null;
+  }
+}
+
+interface IgnoreRule {
+  base: string;          // directory of the .gitignore, relative to the root
+  pattern: RegExp;
+  anchored: boolean;     // matched against the path below base instead of the name
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+// Without git: walk the tree applying .gitignore files on the way down
+async function walkFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (relativeDir: string, inherited: IgnoreRule[]): Promise<void> => {
+    const absoluteDir = path.join(root, relativeDir);
+    const gitignore = await fs.readFile(path.join(absoluteDir, '.gitignore'), 'utf-8').catch(() => '');
+    const rules = [...inherited, ...parseGitignore(gitignore, relativeDir)];
+    const entries = await fs.readdir(absoluteDir, { withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (files.length >= MAX_FILES) {
+        return;
+      }
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const isDirectory = entry.isDirectory();
+      if (ALWAYS_IGNORED.includes(entry.name) || isIgnored(relativePath, isDirectory, rules)) {
+        continue;
+      }
+      if (isDirectory) {
+        await walk(relativePath, rules);
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  await walk('', []);
+  return files;
+}
+
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const negated = line.startsWith('!');
+      let pattern = negated ? line.slice(1) : line;
+      const directoryOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\//, '');
+      return { base, pattern: globToRegExp(pattern), anchored, negated, directoryOnly };
+    });
+}
+
+// The last matching rule wins, as in git
+function isIgnored(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    const below = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    const subject = rule.anchored ? below : path.posix.basename(below);
+    if (rule.pattern.test(subject)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches any number of directories, a trailing "**" everything below
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function summarizePackageJson(root: string): Promise<string[]> {
+  const manifest = await readJson(path.join(root, 'package.json'));
+  if (!manifest) {
+    return [];
+  }
+
+  const lines = ['package.json:'];
+  const identity = [manifest.name, manifest.version && `v${manifest.version}`, manifest.type && `type ${manifest.type}`]
+    .filter(Boolean)
+    .join(', ');
+  if (identity) {
+    lines.push(`  ${identity}`);
+  }
+  if (typeof manifest.description === 'string' && manifest.description) {
+    lines.push(`  description: ${truncate(manifest.description, 160)}`);
+  }
+  const entry = [manifest.main && `main ${manifest.main}`, manifest.bin && `bin ${formatBin(manifest.bin)}`].filter(Boolean);
+  if (entry.length > 0) {
+    lines.push(`  entry: ${entry.join(', ')}`);
+  }
+  if (isRecord(manifest.scripts)) {
+    const scripts = Object.entries(manifest.scripts).map(([name, command]) => `${name} (${truncate(String(command), 40)})`);
+    lines.push(`  scripts: ${truncate(scripts.join(', '), 400)}`);
+  }
+  for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+    if (isRecord(manifest[field]) && Object.keys(manifest[field]).length > 0) {
+      const packages = Object.entries(manifest[field]).map(([name, version]) => `${name}@${version}`);
+      lines.push(`  ${field}: ${truncate(packages.join(', '), 600)}`);
+    }
+  }
+  return lines;
+}
+
+async function summarizeTsconfig(root: string): Promise<string[]> {
+  const tsconfig = await readJson(path.join(root, 'tsconfig.json'));
+  if (!tsconfig) {
+    return [];
+  }
+
+  const compilerOptions = isRecord(tsconfig.compilerOptions) ? tsconfig.compilerOptions : {};
+  const settings = ['target', 'module', 'moduleResolution', 'jsx', 'rootDir', 'outDir', 'baseUrl']
+    .filter(key => compilerOptions[key] !== undefined)
+    .map(key => `${key} ${compilerOptions[key]}`);
+  if (compilerOptions.strict) {
+    settings.push('strict');
+  }
+  if (isRecord(compilerOptions.paths)) {
+    settings.push(`paths ${Object.keys(compilerOptions.paths).join(' ')}`);
+  }
+  for (const key of ['extends', 'include']) {
+    if (tsconfig[key] !== undefined) {
+      settings.push(`${key} ${[tsconfig[key]].flat().join(' ')}`);
+    }
+  }
+  return settings.length > 0 ? [`tsconfig.json: ${truncate(settings.join(', '), 400)}`] : [];
+}
+
+// "src/commands/ (12 files)", indented by depth; deeper directories count towards their parent
+function describeLayout(files: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const parts = file.split('/').slice(0, -1);
+    for (let depth = 1; depth <= Math.min(parts.length, LAYOUT_DEPTH); depth++) {
+      const dir = parts.slice(0, depth).join('/');
+      counts.set(dir, (counts.get(dir) || 0) + 1);
+    }
+  }
+
+  return [...counts.keys()]
+    .sort()
+    .map(dir => {
+      const depth = dir.split('/').length;
+      const count = counts.get(dir)!;
+      return `${'  '.repeat(depth)}${path.posix.basename(dir)}/ (${count} ${count === 1 ? 'file' : 'files'})`;
+    });
+}
+
+// Root files and entry points first, then shallow before deep, then by name
+function prioritizeFiles(files: string[]): string[] {
+  const rank = (file: string): number => {
+    const depth = file.split('/').length - 1;
+    if (depth === 0) {
+      return 0;
+    }
+    return KEY_FILE_PATTERN.test(path.posix.basename(file)) ? 1 : 1 + depth;
+  };
+  return [...files].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+// package.json or tsconfig.json; tsconfig may contain comments and trailing commas
+async function readJson(filePath: string): Promise<Record<string, any> | null> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(stripJsonComments(content).replace(/,(\s*[}\]])/g, '$1'));
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Drops // and /* */ comments outside of strings ("src/**/*" stays intact)
+function stripJsonComments(content: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += content[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') {
+        i++;
+      }
+      result += '\n';
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function formatBin(bin: unknown): string {
+  return isRecord(bin) ? Object.entries(bin).map(([name, file]) => `${name} -> ${file}`).join(', ') : String(bin);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
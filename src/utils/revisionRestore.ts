@@ -0,0 +1,53 @@
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { PlanSnapshot } from '../storage/PlanStore';
+import { ProjectPlan } from '../types';
+import { diffPlans, hasChanges, printPlanDiff, serializeDiff } from './planDiff';
+import { createSpinner, emitJson, planSummary } from './output';
+import { promptUser } from './prompt';
+
+// Shared by undo and revert: preview what restoring a revision changes, then save it
+// as a new revision. Returns false when nothing was restored.
+export async function confirmAndRestore(
+  storage: FileStorage,
+  plan: ProjectPlan,
+  snapshot: PlanSnapshot,
+  options: { yes?: boolean }
+): Promise<boolean> {
+  const diff = diffPlans(plan, snapshot.plan);
+
+  console.log(chalk.blue(`\n⏪ Restoring revision ${snapshot.revision} of "${plan.title}" (${snapshot.summary}):`));
+  printPlanDiff(diff);
+
+  if (!hasChanges(diff)) {
+    console.log(chalk.yellow('\n🚫 The plan already matches this revision'));
+    emitJson({ plan: planSummary(plan), restored: null });
+    return false;
+  }
+
+  if (!options.yes) {
+    const { confirm } = await promptUser([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `Restore revision ${snapshot.revision}?`,
+        default: true
+      }
+    ], 'pass --yes to restore the revision');
+
+    if (!confirm) {
+      console.log(chalk.yellow('🚫 No changes made'));
+      emitJson({ plan: planSummary(plan), restored: null });
+      return false;
+    }
+  }
+
+  const spinner = createSpinner('💾 Restoring plan...').start();
+  const restored = await storage.restoreRevision(plan, snapshot);
+  spinner.succeed(`Restored revision ${snapshot.revision} as revision ${restored.revision}`);
+  emitJson({ plan: planSummary(restored), restored: snapshot.revision, revision: restored.revision, diff: serializeDiff(diff) });
+
+  console.log(chalk.gray(`\n   ${restored.progress.completedSteps}/${restored.progress.totalSteps} steps completed (${restored.progress.percentage}%)`));
+  console.log(chalk.gray(`   💡 Use "code-planner history ${plan.id}" to see all revisions`));
+  return true;
+}
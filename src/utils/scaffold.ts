@@ -0,0 +1,160 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectPlan } from '../types';
+import { FlatStep, flattenSteps } from './stepTree';
+
+// Turn a plan's fileStructure and step files into directories and stub files.
+// Existing files are never touched.
+
+export type ScaffoldStatus = 'created' | 'exists' | 'outside';
+
+export interface ScaffoldEntry {
+  type: 'directory' | 'file';
+  path: string;            // relative to the target directory
+  owner?: FlatStep;        // first step listing the file
+  content?: string;        // files only
+}
+
+export interface ScaffoldResult extends ScaffoldEntry {
+  status: ScaffoldStatus;  // what happened (or would happen in a dry run)
+}
+
+// Comment syntax for the stub header, by extension or file name
+const LINE_COMMENTS: Record<string, string> = {
+  '//': 'js jsx mjs cjs ts tsx mts cts java kt kts scala go rs swift c h cc cpp hpp cs dart groovy',
+  '#': 'py rb sh bash zsh yml yaml toml r pl ex exs tf conf env gitignore dockerignore dockerfile makefile',
+  '--': 'sql lua hs'
+};
+const BLOCK_COMMENTS: Record<string, [string, string]> = {
+  html: ['<!--', '-->'], htm: ['<!--', '-->'], md: ['<!--', '-->'], xml: ['<!--', '-->'],
+  svg: ['<!--', '-->'], vue: ['<!--', '-->'], svelte: ['<!--', '-->'],
+  css: ['/*', '*/'], scss: ['/*', '*/'], less: ['/*', '*/']
+};
+
+export function planScaffold(plan: ProjectPlan, options: { packageJson?: boolean } = {}): ScaffoldEntry[] {
+  const owners = new Map<string, FlatStep | undefined>();
+  const directories = new Set<string>();
+
+  const addPath = (rawPath: string, owner?: FlatStep) => {
+    const normalized = normalizePath(rawPath);
+    if (!normalized) {
+      return;
+    }
+    if (/[\\/]$/.test(rawPath.trim())) {
+      directories.add(normalized);
+    } else if (!owners.has(normalized) || (!owners.get(normalized) && owner)) {
+      owners.set(normalized, owner);
+    }
+  };
+
+  flattenSteps(plan.steps).forEach(entry => entry.step.files.forEach(file => addPath(file, entry)));
+  plan.fileStructure.files.forEach(file => addPath(file));
+  plan.fileStructure.directories.forEach(dir => directories.add(normalizePath(dir)));
+
+  if (options.packageJson) {
+    owners.delete('package.json');
+  }
+
+  // Parents of every file, so the tree can be created top-down
+  for (const file of owners.keys()) {
+    for (let dir = path.posix.dirname(file); dir !== '.' && dir !== '/'; dir = path.posix.dirname(dir)) {
+      directories.add(dir);
+    }
+  }
+  directories.delete('');
+  directories.forEach(dir => owners.delete(dir));
+
+  const entries: ScaffoldEntry[] = [
+    ...[...directories].sort().map(dir => ({ type: 'directory' as const, path: dir })),
+    ...[...owners.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, owner]) => ({ type: 'file' as const, path: file, owner, content: stubContent(plan, file, owner) }))
+  ];
+
+  if (options.packageJson) {
+    entries.push({ type: 'file', path: 'package.json', content: packageJsonContent(plan) });
+  }
+  return entries;
+}
+
+// Create what is missing below targetDir; with dryRun only report it
+export async function writeScaffold(entries: ScaffoldEntry[], targetDir: string, dryRun: boolean = false): Promise<ScaffoldResult[]> {
+  const root = path.resolve(targetDir);
+  const results: ScaffoldResult[] = [];
+
+  for (const entry of entries) {
+    const absolutePath = path.resolve(root, entry.path);
+    if (absolutePath !== root && !absolutePath.startsWith(root + path.sep)) {
+      results.push({ ...entry, status: 'outside' });
+      continue;
+    }
+
+    const exists = await fs.stat(absolutePath).then(() => true).catch(() => false);
+    if (exists) {
+      results.push({ ...entry, status: 'exists' });
+      continue;
+    }
+
+    if (!dryRun) {
+      if (entry.type === 'directory') {
+        await fs.mkdir(absolutePath, { recursive: true });
+      } else {
+        await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+        // "wx" keeps a file that appeared since the check
+        await fs.writeFile(absolutePath, entry.content || '', { encoding: 'utf-8', flag: 'wx' });
+      }
+    }
+    results.push({ ...entry, status: 'created' });
+  }
+
+  return results;
+}
+
+function normalizePath(rawPath: string): string {
+  return path.posix.normalize(rawPath.trim().replace(/\\/g, '/')).replace(/^(\.\/)+|\/+$/g, '').replace(/^\.$/, '');
+}
+
+function stubContent(plan: ProjectPlan, file: string, owner: FlatStep | undefined): string {
+  const name = path.posix.basename(file).toLowerCase();
+  const extension = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1) : name;
+
+  if (extension === 'json') {
+    return '{}\n';
+  }
+
+  const header = [
+    owner ? `Step ${owner.path} of "${plan.title}": ${owner.step.title}` : `Planned in "${plan.title}"`,
+    `See: code-planner show ${plan.id} --steps`
+  ];
+
+  const lineComment = Object.keys(LINE_COMMENTS).find(marker => LINE_COMMENTS[marker].split(' ').includes(extension));
+  if (lineComment) {
+    return `${header.map(line => `${lineComment} ${line}`).join('\n')}\n`;
+  }
+  const block = BLOCK_COMMENTS[extension];
+  if (block) {
+    return `${block[0]}\n  ${header.join('\n  ')}\n${block[1]}\n`;
+  }
+  // No known comment syntax: leave the file empty rather than break its format
+  return '';
+}
+
+function packageJsonContent(plan: ProjectPlan): string {
+  const dependencies: Record<string, string> = {};
+  plan.dependencies.npm.forEach(spec => {
+    // "react", "react@18" or "@types/node@^20"
+    const match = spec.trim().match(/^(@?[^@\s]+)(?:@(\S+))?$/);
+    if (match) {
+      dependencies[match[1]] = match[2] || 'latest';
+    }
+  });
+
+  const manifest = {
+    name: plan.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project',
+    version: '0.1.0',
+    private: true,
+    description: plan.description,
+    dependencies
+  };
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectPlan, StepCommit } from '../types';
+import { findStepByPath } from './stepTree';
+import { BranchSwitch, hooksDirectory, runGit, switchToBranch } from './git';
+
+// Tie git work to plan steps: a branch per step, a commit-msg hook that adds a
+// "Plan-Step: <planId>#<step>" trailer on those branches, and linking the
+// trailers found in the history back to the steps.
+
+export const STEP_TRAILER = 'Plan-Step';
+
+export interface TrailerCommit extends StepCommit {
+  planId: string;
+  stepPath: string;
+}
+
+export interface StepBranch {
+  name: string;
+  result: BranchSwitch;
+}
+
+export interface LinkResult {
+  linked: { path: string; commit: StepCommit }[];
+  unknownSteps: TrailerCommit[];   // trailers naming a step the plan doesn't have
+}
+
+export type HookStatus = 'installed' | 'updated' | 'replaced' | 'foreign';
+
+// Marks hooks written by us, so they can be replaced or removed safely
+const HOOK_MARKER = '# Installed by code-planner: adds a Plan-Step trailer on plan/<planId>/step-<n> branches';
+
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER}
+branch=$(git symbolic-ref --quiet --short HEAD) || exit 0
+case "$branch" in
+  plan/*/step-*) ;;
+  *) exit 0 ;;
+esac
+grep -qi '^${STEP_TRAILER}:' "$1" && exit 0
+rest=\${branch#plan/}
+plan=\${rest%/step-*}
+step=\${rest##*/step-}
+exec git interpret-trailers --in-place --trailer "${STEP_TRAILER}: $plan#$step" "$1"
+`;
+
+const TRAILER_PATTERN = new RegExp(`^${STEP_TRAILER}:\\s*(\\S+)#(\\d+(?:\\.\\d+)*)\\s*$`, 'gim');
+
+export function stepBranchName(planId: string, stepPath: string): string {
+  return `plan/${planId}/step-${stepPath}`;
+}
+
+export async function checkoutStepBranch(projectDir: string, planId: string, stepPath: string): Promise<StepBranch> {
+  const name = stepBranchName(planId, stepPath);
+  return { name, result: await switchToBranch(projectDir, name) };
+}
+
+export function describeStepBranch(branch: StepBranch): string {
+  switch (branch.result) {
+    case 'created': return `🌿 Created and switched to branch ${branch.name}`;
+    case 'switched': return `🌿 Switched to branch ${branch.name}`;
+    case 'current': return `🌿 Already on branch ${branch.name}`;
+  }
+}
+
+// Commits on any branch carrying a Plan-Step trailer, one entry per trailer
+export async function findTrailerCommits(projectDir: string): Promise<TrailerCommit[]> {
+  const output = await runGit(projectDir, [
+    'log', '--all', `--grep=^${STEP_TRAILER}:`, '--regexp-ignore-case',
+    '--format=%H%x1f%s%x1f%cI%x1f%B%x1e'
+  ]);
+
+  return output.split('\x1e').flatMap(record => {
+    const [sha, subject, committedAt, body] = record.replace(/^\n/, '').split('\x1f');
+    if (!sha || body === undefined) {
+      return [];
+    }
+    return [...body.matchAll(TRAILER_PATTERN)].map(match => ({
+      sha,
+      subject,
+      committedAt: new Date(committedAt),
+      planId: match[1],
+      stepPath: match[2]
+    }));
+  });
+}
+
+// Record the commits naming this plan on their steps; known SHAs are skipped
+export function linkCommits(plan: ProjectPlan, commits: TrailerCommit[]): LinkResult {
+  const result: LinkResult = { linked: [], unknownSteps: [] };
+
+  commits
+    .filter(commit => commit.planId === plan.id)
+    .sort((a, b) => a.committedAt.getTime() - b.committedAt.getTime())
+    .forEach(commit => {
+      const entry = findStepByPath(plan.steps, commit.stepPath);
+      if (!entry) {
+        result.unknownSteps.push(commit);
+        return;
+      }
+
+      const stepCommits = entry.step.commits || [];
+      if (stepCommits.some(existing => existing.sha === commit.sha)) {
+        return;
+      }
+
+      const stepCommit: StepCommit = { sha: commit.sha, subject: commit.subject, committedAt: commit.committedAt };
+      entry.step.commits = [...stepCommits, stepCommit];
+      result.linked.push({ path: entry.path, commit: stepCommit });
+    });
+
+  return result;
+}
+
+export async function commitMsgHookPath(projectDir: string): Promise<string> {
+  return path.join(await hooksDirectory(projectDir), 'commit-msg');
+}
+
+// Write the commit-msg hook; a hook we didn't write is only replaced with force,
+// after moving it to commit-msg.bak (or .bak.1, .bak.2, ... if that is taken)
+export async function installCommitMsgHook(
+  projectDir: string,
+  force: boolean = false
+): Promise<{ hookPath: string; status: HookStatus; backupPath?: string }> {
+  const hookPath = await commitMsgHookPath(projectDir);
+  const existing = await fs.readFile(hookPath, 'utf-8').catch(() => undefined);
+  const foreign = existing !== undefined && !existing.includes(HOOK_MARKER);
+
+  if (foreign && !force) {
+    return { hookPath, status: 'foreign' };
+  }
+
+  const hooksDir = path.dirname(hookPath);
+  const stats = await fs.stat(hooksDir).catch(() => null);
+  if (stats && !stats.isDirectory()) {
+    // e.g. core.hooksPath=/dev/null, which turns hooks off
+    throw new Error(`Git hooks are disabled here: core.hooksPath points to ${hooksDir}, which is not a directory`);
+  }
+  await fs.mkdir(hooksDir, { recursive: true });
+
+  let backupPath: string | undefined;
+  if (foreign) {
+    backupPath = await freePath(`${hookPath}.bak`);
+    await fs.rename(hookPath, backupPath);
+  }
+
+  await fs.writeFile(hookPath, HOOK_SCRIPT, { encoding: 'utf-8', mode: 0o755 });
+  await fs.chmod(hookPath, 0o755);
+  return {
+    hookPath,
+    status: existing === undefined ? 'installed' : foreign ? 'replaced' : 'updated',
+    backupPath
+  };
+}
+
+// Remove the hook if we wrote it; returns what was found
+export async function uninstallCommitMsgHook(projectDir: string): Promise<{ hookPath: string; status: 'removed' | 'missing' | 'foreign' }> {
+  const hookPath = await commitMsgHookPath(projectDir);
+  const existing = await fs.readFile(hookPath, 'utf-8').catch(() => undefined);
+
+  if (existing === undefined) {
+    return { hookPath, status: 'missing' };
+  }
+  if (!existing.includes(HOOK_MARKER)) {
+    return { hookPath, status: 'foreign' };
+  }
+  await fs.unlink(hookPath);
+  return { hookPath, status: 'removed' };
+}
+
+async function freePath(basePath: string): Promise<string> {
+  for (let suffix = 0; ; suffix++) {
+    const candidate = suffix === 0 ? basePath : `${basePath}.${suffix}`;
+    const taken = await fs.stat(candidate).then(() => true).catch(() => false);
+    if (!taken) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { PlanStep } from '../types';
+import { ValidationIssue } from './validator';
+import { generateStepId } from './idGenerator';
+import { renumberSubSteps } from './stepTree';
+
+// Helpers for the prerequisite graph formed by PlanStep.dependsOn
+
+export type StepState = 'completed' | 'in-progress' | 'ready' | 'blocked';
+
+function prerequisitesOf(step: PlanStep): string[] {
+  return step.dependsOn || [];
+}
+
+// Report dangling references, self references and cycles
+export function validateStepGraph(steps: PlanStep[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const ids = new Set(steps.map(step => step.id));
+
+  steps.forEach((step, index) => {
+    prerequisitesOf(step).forEach(dependencyId => {
+      const path = `steps[${index}].dependsOn`;
+      if (dependencyId === step.id) {
+        issues.push({ path, message: `step "${step.id}" depends on itself` });
+      } else if (!ids.has(dependencyId)) {
+        issues.push({ path, message: `unknown step "${dependencyId}"` });
+      }
+    });
+  });
+
+  const cycle = findCycle(steps);
+  if (cycle) {
+    issues.push({ path: 'steps', message: `dependency cycle: ${cycle.join(' -> ')}` });
+  }
+
+  return issues;
+}
+
+// Depth-first search returning the first cycle found as a list of step ids
+export function findCycle(steps: PlanStep[]): string[] | null {
+  const byId = new Map(steps.map(step => [step.id, step]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const trail: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...trail.slice(trail.indexOf(id)), id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+
+    const step = byId.get(id);
+    if (!step) {
+      return null;
+    }
+
+    visiting.add(id);
+    trail.push(id);
+    for (const dependencyId of prerequisitesOf(step)) {
+      if (dependencyId === id) continue; // reported separately as a self reference
+      const cycle = visit(dependencyId);
+      if (cycle) return cycle;
+    }
+    trail.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+// Kahn's algorithm, keeping the current order wherever the graph allows it.
+// Throws when the graph has a cycle.
+export function topologicalSort(steps: PlanStep[]): PlanStep[] {
+  const ids = new Set(steps.map(step => step.id));
+  const remaining = new Map(steps.map(step => [
+    step.id,
+    new Set(prerequisitesOf(step).filter(id => ids.has(id) && id !== step.id))
+  ]));
+  const sorted: PlanStep[] = [];
+
+  while (sorted.length < steps.length) {
+    const next = steps.find(step => remaining.has(step.id) && remaining.get(step.id)!.size === 0);
+    if (!next) {
+      throw new Error(`Step dependencies contain a cycle: ${(findCycle(steps) || []).join(' -> ')}`);
+    }
+
+    sorted.push(next);
+    remaining.delete(next.id);
+    remaining.forEach(prerequisites => prerequisites.delete(next.id));
+  }
+
+  return sorted;
+}
+
+export function getOpenPrerequisites(steps: PlanStep[], step: PlanStep): PlanStep[] {
+  const prerequisites = new Set(prerequisitesOf(step));
+  return steps.filter(candidate => prerequisites.has(candidate.id) && !candidate.completed);
+}
+
+// Completed steps that would lose a prerequisite if this step were reopened
+export function getCompletedDependents(steps: PlanStep[], step: PlanStep): PlanStep[] {
+  return steps.filter(candidate => candidate.completed && prerequisitesOf(candidate).includes(step.id));
+}
+
+export function getStepState(steps: PlanStep[], step: PlanStep): StepState {
+  if (step.completed) {
+    return 'completed';
+  }
+  if (getOpenPrerequisites(steps, step).length > 0) {
+    return 'blocked';
+  }
+  return step.startedAt ? 'in-progress' : 'ready';
+}
+
+// The step to work on now: one already started, otherwise the first ready one
+export function getNextActionableStep(steps: PlanStep[]): PlanStep | undefined {
+  return steps.find(step => getStepState(steps, step) === 'in-progress') || getReadySteps(steps)[0];
+}
+
+export function getReadySteps(steps: PlanStep[]): PlanStep[] {
+  return steps.filter(step => getStepState(steps, step) === 'ready');
+}
+
+// Human-friendly "step 2, step 3" labels for a list of step ids
+export function describeSteps(steps: PlanStep[], ids: string[]): string {
+  return ids
+    .map(id => {
+      const step = steps.find(candidate => candidate.id === id);
+      return step ? `${step.order}. ${step.title}` : id;
+    })
+    .join(', ');
+}
+
+// Assign sequential step ids/order and rewrite dependsOn references to match
+export function renumberSteps(steps: PlanStep[]): PlanStep[] {
+  const idMap = new Map(steps.map((step, index) => [step.id, generateStepId(index + 1)]));
+
+  return steps.map((step, index) => ({
+    ...step,
+    id: generateStepId(index + 1),
+    order: index + 1,
+    dependsOn: (step.dependsOn || [])
+      .filter(id => idMap.has(id))
+      .map(id => idMap.get(id)!),
+    subSteps: renumberSubSteps(generateStepId(index + 1), step.subSteps)
+  }));
+}
@@ -0,0 +1,67 @@
+import chalk from 'chalk';
+import { FileStorage } from '../storage/FileStorage';
+import { getProjectDir } from '../storage/storageLocation';
+import { ProjectPlan } from '../types';
+import { FlatStep } from './stepTree';
+import { estimatedHours, findRunningTimers, formatHours, startTimer, stopTimer, trackedHours } from './timeTracking';
+import { StepBranch, checkoutStepBranch, describeStepBranch } from './stepCommits';
+import { emitJson, planSummary, reportFailure, stepSummary } from './output';
+
+// Shared by start and progress --start: start the step's timer (stopping any other one
+// in the plan), optionally on its own branch. A completed step is an error; a timer that
+// is already running is reported with "changed": false. Returns whether the plan changed.
+export async function startStep(
+  storage: FileStorage,
+  plan: ProjectPlan,
+  entry: FlatStep,
+  options: { branch?: boolean }
+): Promise<boolean> {
+  const step = entry.step;
+  if (step.completed) {
+    console.error(chalk.yellow(`⚠️  Step ${entry.path} is already completed - reopen it with "code-planner progress ${plan.id} --step ${entry.path} --incomplete" first`));
+    reportFailure('error', `Step ${entry.path} is already completed`);
+    return false;
+  }
+
+  // Switch first, so a failed checkout leaves the plan untouched
+  let branch: StepBranch | undefined;
+  if (options.branch) {
+    branch = await checkoutStepBranch(getProjectDir(storage.getLocation()), plan.id, entry.path);
+    console.log(chalk.blue(describeStepBranch(branch)));
+  }
+
+  const now = new Date();
+  const previousStatus = plan.status;
+  const stopped = findRunningTimers(plan.steps).filter(running => running.step !== step);
+  stopped.forEach(running => stopTimer(running.step, now));
+  const started = startTimer(step, now);
+
+  if (started) {
+    await storage.updatePlan(plan, { summary: `started step ${entry.path}` });
+    stopped.forEach(running => {
+      console.log(chalk.gray(`⏹️  Stopped step ${running.path}: ${running.step.title} (${formatHours(trackedHours(running.step, now))} tracked)`));
+    });
+    console.log(chalk.green(`\n⏱️  Timer started on step ${entry.path}: ${step.title}`));
+  } else {
+    console.log(chalk.yellow(`⏱️  The timer on step ${entry.path} is already running`));
+  }
+
+  const estimate = estimatedHours(step);
+  const tracked = trackedHours(step, now);
+  const details = [
+    estimate !== undefined ? `estimated ${formatHours(estimate)}` : 'no estimate',
+    tracked > 0 ? `${formatHours(tracked)} tracked so far` : ''
+  ].filter(Boolean);
+  console.log(chalk.gray(`   ${details.join(', ')}`));
+
+  emitJson({
+    plan: planSummary(plan),
+    step: { ...stepSummary(step, entry.path), estimatedHours: estimate, trackedHours: tracked },
+    changed: started,
+    previousStatus,
+    stopped: started ? stopped.map(running => stepSummary(running.step, running.path)) : [],
+    branch: branch || null
+  });
+  console.log(chalk.gray(`   💡 Run "code-planner stop ${plan.id}" for a break, or "code-planner progress ${plan.id} --step ${entry.path} --complete" when done`));
+  return started;
+}
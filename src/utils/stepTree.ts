@@ -0,0 +1,91 @@
+import { PlanStep } from '../types';
+
+// Helpers for the step hierarchy formed by PlanStep.subSteps.
+// Steps are addressed by dotted paths of their order numbers: "3" or "3.2".
+
+export interface FlatStep {
+  step: PlanStep;
+  path: string;
+  depth: number;
+  parent?: PlanStep;
+}
+
+export function flattenSteps(steps: PlanStep[], parentPath: string = '', parent?: PlanStep): FlatStep[] {
+  const depth = parentPath ? parentPath.split('.').length : 0;
+
+  return steps.flatMap(step => {
+    const path = parentPath ? `${parentPath}.${step.order}` : String(step.order);
+    return [
+      { step, path, depth, parent },
+      ...flattenSteps(step.subSteps || [], path, step)
+    ];
+  });
+}
+
+export function findStepByPath(steps: PlanStep[], path: string): FlatStep | undefined {
+  return flattenSteps(steps).find(entry => entry.path === String(path).trim());
+}
+
+export function hasSubSteps(step: PlanStep): boolean {
+  return !!step.subSteps && step.subSteps.length > 0;
+}
+
+// Sub-step ids are derived from the parent so they stay unique across the plan
+export function subStepId(parentId: string, position: number): string {
+  return `${parentId}.${position}`;
+}
+
+// Re-derive sub-step ids/order below a (possibly renamed) parent
+export function renumberSubSteps(parentId: string, subSteps: PlanStep[] | undefined): PlanStep[] | undefined {
+  if (!subSteps) {
+    return undefined;
+  }
+
+  return subSteps.map((subStep, index) => {
+    const id = subStepId(parentId, index + 1);
+    return {
+      ...subStep,
+      id,
+      order: index + 1,
+      subSteps: renumberSubSteps(id, subStep.subSteps)
+    };
+  });
+}
+
+// Completing a step completes everything below it
+export function setCompletedRecursive(step: PlanStep, completed: boolean): void {
+  step.completed = completed;
+  (step.subSteps || []).forEach(subStep => setCompletedRecursive(subStep, completed));
+}
+
+// A parent is complete exactly when all of its children are; returns the parents that changed
+export function rollUpCompletion(steps: PlanStep[]): PlanStep[] {
+  return steps.flatMap(step => {
+    if (!hasSubSteps(step)) {
+      return [];
+    }
+    const changed = rollUpCompletion(step.subSteps!);
+    const completed = step.subSteps!.every(subStep => subStep.completed);
+    if (step.completed !== completed) {
+      step.completed = completed;
+      changed.push(step);
+    }
+    return changed;
+  });
+}
+
+// 0..1 share of work done, counting sub-steps proportionally
+export function completionRatio(step: PlanStep): number {
+  if (step.completed) {
+    return 1;
+  }
+  if (!hasSubSteps(step)) {
+    return 0;
+  }
+  const total = step.subSteps!.reduce((sum, subStep) => sum + completionRatio(subStep), 0);
+  return total / step.subSteps!.length;
+}
+
+export function forEachStep(steps: PlanStep[], callback: (step: PlanStep) => void): void {
+  flattenSteps(steps).forEach(entry => callback(entry.step));
+}
@@ -0,0 +1,144 @@
+import { PlanStep, ProjectPlan } from '../types';
+import { FlatStep, flattenSteps, hasSubSteps } from './stepTree';
+
+// Time spent on steps is recorded as start/stop timer entries. A step's actual time
+// includes its sub-steps, and its estimate falls back to the sum of theirs.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isTimerRunning(step: PlanStep): boolean {
+  const entries = step.timeEntries || [];
+  return entries.length > 0 && !entries[entries.length - 1].end;
+}
+
+// Returns false when the timer was already running
+export function startTimer(step: PlanStep, now: Date = new Date()): boolean {
+  if (isTimerRunning(step)) {
+    return false;
+  }
+  step.timeEntries = [...(step.timeEntries || []), { start: now }];
+  step.startedAt = step.startedAt || now;
+  return true;
+}
+
+// Returns the hours of the entry that was stopped, or null when no timer was running
+export function stopTimer(step: PlanStep, now: Date = new Date()): number | null {
+  if (!isTimerRunning(step)) {
+    return null;
+  }
+  const entry = step.timeEntries![step.timeEntries!.length - 1];
+  entry.end = now;
+  return (now.getTime() - entry.start.getTime()) / HOUR_MS;
+}
+
+// Steps anywhere in the plan with a running timer
+export function findRunningTimers(steps: PlanStep[]): FlatStep[] {
+  return flattenSteps(steps).filter(entry => isTimerRunning(entry.step));
+}
+
+// Keep timestamps in line with step completion: finishing a step (and its sub-steps)
+// stops their timers and records when they were done; reopening clears that again.
+export function recordCompletion(step: PlanStep, completed: boolean, now: Date = new Date()): void {
+  if (completed) {
+    stopTimer(step, now);
+    step.completedAt = step.completedAt || now;
+    delete step.startedAt;
+  } else {
+    delete step.completedAt;
+  }
+  (step.subSteps || []).forEach(subStep => recordCompletion(subStep, completed, now));
+}
+
+// Same for a parent completed or reopened by rollUpCompletion, leaving its sub-steps'
+// timestamps alone: it was done when its last sub-step was.
+export function recordRolledUpCompletion(step: PlanStep, now: Date = new Date()): void {
+  if (step.completed) {
+    stopTimer(step, now);
+    const finished = (step.subSteps || []).map(subStep => (subStep.completedAt || now).getTime());
+    step.completedAt = step.completedAt || new Date(Math.max(...finished));
+    delete step.startedAt;
+  } else {
+    delete step.completedAt;
+  }
+}
+
+// Tracked hours, counting a running timer up to now
+export function trackedHours(step: PlanStep, now: Date = new Date()): number {
+  const own = (step.timeEntries || []).reduce(
+    (sum, entry) => sum + ((entry.end || now).getTime() - entry.start.getTime()) / HOUR_MS,
+    0
+  );
+  return own + (step.subSteps || []).reduce((sum, subStep) => sum + trackedHours(subStep, now), 0);
+}
+
+export function estimatedHours(step: PlanStep): number | undefined {
+  if (step.estimatedHours !== undefined) {
+    return step.estimatedHours;
+  }
+  if (!hasSubSteps(step)) {
+    return undefined;
+  }
+  const estimates = step.subSteps!.map(estimatedHours);
+  return estimates.every(estimate => estimate !== undefined)
+    ? estimates.reduce((sum, estimate) => sum! + estimate!, 0)
+    : undefined;
+}
+
+export interface StepTime {
+  path: string;
+  depth: number;
+  step: PlanStep;
+  estimated?: number;
+  actual: number;
+  running: boolean;
+}
+
+export interface PlanTimeReport {
+  steps: StepTime[];
+  estimated: number;        // sum over top-level steps with an estimate
+  actual: number;
+  // Completed top-level steps with both an estimate and tracked time: the basis for accuracy
+  measured: { count: number; estimated: number; actual: number };
+}
+
+export function buildTimeReport(plan: ProjectPlan, now: Date = new Date()): PlanTimeReport {
+  const steps = flattenSteps(plan.steps).map(({ step, path, depth }) => ({
+    path,
+    depth,
+    step,
+    estimated: estimatedHours(step),
+    actual: trackedHours(step, now),
+    running: isTimerRunning(step)
+  }));
+
+  const topLevel = steps.filter(entry => entry.depth === 0);
+  const measured = topLevel.filter(entry => entry.step.completed && entry.estimated !== undefined && entry.actual > 0);
+
+  return {
+    steps,
+    estimated: topLevel.reduce((sum, entry) => sum + (entry.estimated || 0), 0),
+    actual: topLevel.reduce((sum, entry) => sum + entry.actual, 0),
+    measured: {
+      count: measured.length,
+      estimated: measured.reduce((sum, entry) => sum + entry.estimated!, 0),
+      actual: measured.reduce((sum, entry) => sum + entry.actual, 0)
+    }
+  };
+}
+
+// "45m", "2.5h"
+export function formatHours(hours: number): string {
+  if (hours < 1) {
+    return `${Math.round(hours * 60)}m`;
+  }
+  return `${Math.round(hours * 10) / 10}h`;
+}
+
+// Actual relative to estimate: "+25%" means it took a quarter longer than estimated
+export function formatVariance(estimated: number, actual: number): string {
+  if (estimated <= 0) {
+    return '';
+  }
+  const variance = Math.round(((actual - estimated) / estimated) * 100);
+  return `${variance > 0 ? '+' : ''}${variance}%`;
+}
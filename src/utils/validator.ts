@@ -0,0 +1,477 @@
+import { PlanStep, PlanTemplate, ProjectPlan, StatusTransition, StepCommit, TemplateStep, TimeEntry } from '../types';
+import { validateStepGraph } from './stepGraph';
+import { PLAN_STATUSES } from './planStatus';
+
+// Lightweight runtime schemas for data we don't control (AI output, files on disk)
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  valid: boolean;
+  value?: T;
+  errors: ValidationIssue[];
+}
+
+// A schema checks a value, records issues under the given path and returns the typed value
+export type Schema<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+
+type SchemaShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export const schema = {
+  string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+    return (value, path, issues) => {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${describe(value)}` });
+        return undefined;
+      }
+      if (options.nonEmpty && !value.trim()) {
+        issues.push({ path, message: 'must not be empty' });
+        return undefined;
+      }
+      return value;
+    };
+  },
+
+  number(options: { integer?: boolean; min?: number } = {}): Schema<number> {
+    return (value, path, issues) => {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path, message: `expected number, got ${describe(value)}` });
+        return undefined;
+      }
+      if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: 'expected an integer' });
+        return undefined;
+      }
+      if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `must be >= ${options.min}` });
+        return undefined;
+      }
+      return value;
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return (value, path, issues) => {
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+        return undefined;
+      }
+      return value;
+    };
+  },
+
+  oneOf<T extends string>(allowed: readonly T[]): Schema<T> {
+    return (value, path, issues) => {
+      if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+        issues.push({ path, message: `expected one of ${allowed.join('|')}, got ${JSON.stringify(value)}` });
+        return undefined;
+      }
+      return value as T;
+    };
+  },
+
+  array<T>(item: Schema<T>, options: { minLength?: number; maxLength?: number } = {}): Schema<T[]> {
+    return (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return undefined;
+      }
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        issues.push({ path, message: `expected at least ${options.minLength} item(s)` });
+        return undefined;
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        issues.push({ path, message: `expected at most ${options.maxLength} item(s)` });
+        return undefined;
+      }
+      const before = issues.length;
+      const result = value.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+      return issues.length === before ? (result as T[]) : undefined;
+    };
+  },
+
+  object<T>(shape: SchemaShape<T>): Schema<T> {
+    return (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return undefined;
+      }
+      const before = issues.length;
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const parsed = shape[key]((value as Record<string, unknown>)[key], fieldPath, issues);
+        if (parsed !== undefined) {
+          result[key] = parsed;
+        }
+      }
+      return issues.length === before ? (result as T) : undefined;
+    };
+  },
+
+  // Date objects or anything Date can parse (JSON stores ISO strings)
+  date(): Schema<Date> {
+    return (value, path, issues) => {
+      const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined;
+      if (!date || Number.isNaN(date.getTime())) {
+        issues.push({ path, message: `expected date, got ${JSON.stringify(value)}` });
+        return undefined;
+      }
+      return date;
+    };
+  },
+
+  // Missing/null is fine, anything else must satisfy the inner schema
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return (value, path, issues) => {
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      return inner(value, path, issues);
+    };
+  }
+};
+
+export function validate<T>(value: unknown, rootSchema: Schema<T>): ValidationResult<T> {
+  const errors: ValidationIssue[] = [];
+  const result = rootSchema(value, '', errors);
+  return errors.length === 0
+    ? { valid: true, value: result, errors }
+    : { valid: false, errors };
+}
+
+export function formatValidationErrors(errors: ValidationIssue[]): string {
+  return errors
+    .map(error => `- ${error.path || '(root)'}: ${error.message}`)
+    .join('\n');
+}
+
+// Pull the first complete JSON object out of free-form model output.
+// Handles ```json fences and prose around the object without a greedy regex.
+export function extractJsonObject(text: string): ValidationResult<unknown> {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const source = fenced ? fenced[1] : text;
+  const start = source.indexOf('{');
+
+  if (start === -1) {
+    return { valid: false, errors: [{ path: '', message: 'no JSON object found in response' }] };
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        try {
+          return { valid: true, value: JSON.parse(source.slice(start, i + 1)), errors: [] };
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : 'invalid JSON';
+          return { valid: false, errors: [{ path: '', message: `invalid JSON: ${message}` }] };
+        }
+      }
+    }
+  }
+
+  return { valid: false, errors: [{ path: '', message: 'JSON object is not terminated' }] };
+}
+
+// Shape we ask the model to produce in BasePlanner.buildPrompt
+export interface AIPlanStep {
+  id?: string;  // only when revising an existing plan
+  title: string;
+  description: string;
+  files?: string[];
+  dependencies?: string[];
+  dependsOn?: number[];
+  estimatedHours?: number;
+  order?: number;
+}
+
+export interface AIPlanResponse {
+  title: string;
+  description?: string;
+  overview?: {
+    projectType?: string;
+    estimatedTime?: string;
+    complexity?: 'low' | 'medium' | 'high';
+  };
+  fileStructure?: {
+    directories?: string[];
+    files?: string[];
+  };
+  dependencies?: {
+    npm?: string[];
+    apis?: string[];
+    services?: string[];
+  };
+  steps: AIPlanStep[];
+}
+
+const stringList = schema.optional(schema.array(schema.string()));
+
+export const aiPlanStepSchema: Schema<AIPlanStep> = schema.object<AIPlanStep>({
+  id: schema.optional(schema.string()),
+  title: schema.string({ nonEmpty: true }),
+  description: schema.string(),
+  files: stringList,
+  dependencies: stringList,
+  dependsOn: schema.optional(schema.array(schema.number({ integer: true, min: 1 }))),
+  estimatedHours: schema.optional(schema.number({ min: 0 })),
+  order: schema.optional(schema.number({ integer: true, min: 1 }))
+});
+
+export const aiPlanResponseSchema: Schema<AIPlanResponse> = schema.object<AIPlanResponse>({
+  title: schema.string({ nonEmpty: true }),
+  description: schema.optional(schema.string()),
+  overview: schema.optional(schema.object({
+    projectType: schema.optional(schema.string()),
+    estimatedTime: schema.optional(schema.string()),
+    complexity: schema.optional(schema.oneOf(['low', 'medium', 'high'] as const))
+  })),
+  fileStructure: schema.optional(schema.object({
+    directories: stringList,
+    files: stringList
+  })),
+  dependencies: schema.optional(schema.object({
+    npm: stringList,
+    apis: stringList,
+    services: stringList
+  })),
+  steps: schema.array(aiPlanStepSchema, { minLength: 1 })
+});
+
+export function parseAIPlanResponse(text: string): ValidationResult<AIPlanResponse> {
+  const extracted = extractJsonObject(text);
+  if (!extracted.valid) {
+    return { valid: false, errors: extracted.errors };
+  }
+  const result = validate(extracted.value, aiPlanResponseSchema);
+  if (!result.valid) {
+    return result;
+  }
+
+  const graphErrors = validateAIStepGraph(result.value!.steps);
+  return graphErrors.length === 0 ? result : { valid: false, errors: graphErrors };
+}
+
+// AI steps reference each other by step number ("order", or position when omitted)
+export function validateAIStepGraph(steps: AIPlanStep[]): ValidationIssue[] {
+  const errors: ValidationIssue[] = [];
+  const seen = new Set<number>();
+
+  steps.forEach((step, index) => {
+    const number = step.order ?? index + 1;
+    if (seen.has(number)) {
+      errors.push({ path: `steps[${index}].order`, message: `duplicate step number ${number}` });
+    }
+    seen.add(number);
+  });
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const graphSteps: PlanStep[] = steps.map((step, index) => ({
+    id: String(step.order ?? index + 1),
+    title: step.title,
+    description: step.description,
+    files: [],
+    dependencies: [],
+    dependsOn: (step.dependsOn || []).map(String),
+    completed: false,
+    order: step.order ?? index + 1
+  }));
+
+  return validateStepGraph(graphSteps);
+}
+
+// Shape we ask the model to produce when expanding a single step
+export interface AISubStep {
+  title: string;
+  description: string;
+  files?: string[];
+  estimatedHours?: number;
+}
+
+export interface AISubStepsResponse {
+  subSteps: AISubStep[];
+}
+
+export const aiSubStepsResponseSchema: Schema<AISubStepsResponse> = schema.object<AISubStepsResponse>({
+  subSteps: schema.array(schema.object<AISubStep>({
+    title: schema.string({ nonEmpty: true }),
+    description: schema.string(),
+    files: stringList,
+    estimatedHours: schema.optional(schema.number({ min: 0 }))
+  }), { minLength: 3, maxLength: 8 })
+});
+
+export function parseAISubStepsResponse(text: string): ValidationResult<AISubStepsResponse> {
+  const extracted = extractJsonObject(text);
+  if (!extracted.valid) {
+    return { valid: false, errors: extracted.errors };
+  }
+  return validate(extracted.value, aiSubStepsResponseSchema);
+}
+
+const timeEntrySchema: Schema<TimeEntry> = schema.object<TimeEntry>({
+  start: schema.date(),
+  end: schema.optional(schema.date())
+});
+
+const stepCommitSchema: Schema<StepCommit> = schema.object<StepCommit>({
+  sha: schema.string({ nonEmpty: true }),
+  subject: schema.string(),
+  committedAt: schema.date()
+});
+
+// Full stored plan, used for plans coming from outside (imports)
+const planStepSchema: Schema<PlanStep> = (value, path, issues) => schema.object<PlanStep>({
+  id: schema.string({ nonEmpty: true }),
+  title: schema.string({ nonEmpty: true }),
+  description: schema.string(),
+  files: schema.array(schema.string()),
+  dependencies: schema.array(schema.string()),
+  dependsOn: schema.optional(schema.array(schema.string())),
+  completed: schema.boolean(),
+  startedAt: schema.optional(schema.date()),
+  completedAt: schema.optional(schema.date()),
+  estimatedHours: schema.optional(schema.number({ min: 0 })),
+  timeEntries: schema.optional(schema.array(timeEntrySchema)),
+  commits: schema.optional(schema.array(stepCommitSchema)),
+  order: schema.number({ integer: true, min: 1 }),
+  subSteps: schema.optional(schema.array(planStepSchema))
+})(value, path, issues);
+
+const statusTransitionSchema: Schema<StatusTransition> = schema.object<StatusTransition>({
+  from: schema.oneOf(PLAN_STATUSES),
+  to: schema.oneOf(PLAN_STATUSES),
+  at: schema.date(),
+  automatic: schema.boolean(),
+  note: schema.optional(schema.string())
+});
+
+export const projectPlanSchema: Schema<ProjectPlan> = schema.object<ProjectPlan>({
+  id: schema.string({ nonEmpty: true }),
+  title: schema.string({ nonEmpty: true }),
+  description: schema.string(),
+  createdAt: schema.date(),
+  updatedAt: schema.date(),
+  status: schema.oneOf(PLAN_STATUSES),
+  statusHistory: schema.optional(schema.array(statusTransitionSchema)),
+  archivedAt: schema.optional(schema.date()),
+  revision: schema.optional(schema.number({ integer: true, min: 0 })),
+  schemaVersion: schema.optional(schema.number({ integer: true, min: 0 })),
+  overview: schema.object({
+    projectType: schema.string(),
+    estimatedTime: schema.string(),
+    complexity: schema.oneOf(['low', 'medium', 'high'] as const)
+  }),
+  fileStructure: schema.object({
+    directories: schema.array(schema.string()),
+    files: schema.array(schema.string())
+  }),
+  dependencies: schema.object({
+    npm: schema.array(schema.string()),
+    apis: schema.array(schema.string()),
+    services: schema.array(schema.string())
+  }),
+  steps: schema.array(planStepSchema),
+  progress: schema.object({
+    completedSteps: schema.number({ integer: true, min: 0 }),
+    totalSteps: schema.number({ integer: true, min: 0 }),
+    percentage: schema.number({ min: 0 })
+  })
+});
+
+export function parseProjectPlan(value: unknown): ValidationResult<ProjectPlan> {
+  const result = validate(value, projectPlanSchema);
+  if (!result.valid) {
+    return result;
+  }
+
+  const graphErrors = validateStepGraph(result.value!.steps);
+  return graphErrors.length === 0 ? result : { valid: false, errors: graphErrors };
+}
+
+// Template files written by users (template save-from, or by hand)
+export const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const templateStepSchema: Schema<TemplateStep> = (value, path, issues) => schema.object<TemplateStep>({
+  title: schema.string({ nonEmpty: true }),
+  description: schema.string(),
+  files: schema.array(schema.string()),
+  dependencies: schema.array(schema.string()),
+  dependsOn: schema.optional(schema.array(schema.number({ integer: true, min: 1 }))),
+  estimatedHours: schema.optional(schema.number({ min: 0 })),
+  subSteps: schema.optional(schema.array(templateStepSchema))
+})(value, path, issues);
+
+const templateNameSchema: Schema<string> = (value, path, issues) => {
+  const name = schema.string({ nonEmpty: true })(value, path, issues);
+  if (name !== undefined && !TEMPLATE_NAME_PATTERN.test(name)) {
+    issues.push({ path, message: 'use lowercase letters, digits and dashes' });
+    return undefined;
+  }
+  return name;
+};
+
+export const planTemplateSchema: Schema<PlanTemplate> = schema.object<PlanTemplate>({
+  name: templateNameSchema,
+  description: schema.string(),
+  overview: schema.object({
+    projectType: schema.string(),
+    estimatedTime: schema.string(),
+    complexity: schema.oneOf(['low', 'medium', 'high'] as const)
+  }),
+  fileStructure: schema.object({
+    directories: schema.array(schema.string()),
+    files: schema.array(schema.string())
+  }),
+  dependencies: schema.object({
+    npm: schema.array(schema.string()),
+    apis: schema.array(schema.string()),
+    services: schema.array(schema.string())
+  }),
+  steps: schema.array(templateStepSchema, { minLength: 1 })
+});
+
+export function parsePlanTemplate(value: unknown): ValidationResult<PlanTemplate> {
+  const result = validate(value, planTemplateSchema);
+  if (!result.valid) {
+    return result;
+  }
+
+  // dependsOn holds step positions, like the numbered steps of an AI response
+  const graphErrors = validateAIStepGraph(result.value!.steps);
+  return graphErrors.length === 0 ? result : { valid: false, errors: graphErrors };
+}